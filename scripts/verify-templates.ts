@@ -0,0 +1,71 @@
+/**
+ * Builds every template and runs its Move tests against each pinned framework
+ * rev, so a framework bump that breaks a template fails here rather than for
+ * the first user who picks it. Needs the `sui` CLI on PATH.
+ *
+ *   npm run verify-templates             # every distinct framework rev
+ *   npm run verify-templates -- devnet   # just the named networks
+ */
+import { formatMoveDiagnostics } from '../src/lib/moveBuild';
+import { runMoveTests } from '../src/lib/moveTest';
+import { isSuiNetwork, NETWORKS, SUI_NETWORKS, SuiNetwork } from '../src/lib/networks';
+import { TEMPLATES } from '../src/lib/templates';
+
+function networksToVerify(args: string[]): SuiNetwork[] {
+  if (args.length > 0) {
+    const unknown = args.filter(arg => !isSuiNetwork(arg));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown network: ${unknown.join(', ')}`);
+    }
+    return args as SuiNetwork[];
+  }
+
+  // Networks sharing a framework rev would only build the same thing twice
+  const revs = new Set<string>();
+  return SUI_NETWORKS.filter(network => {
+    const rev = NETWORKS[network].frameworkRev;
+    if (revs.has(rev)) return false;
+    revs.add(rev);
+    return true;
+  });
+}
+
+async function main() {
+  let failures = 0;
+
+  for (const network of networksToVerify(process.argv.slice(2))) {
+    console.log(`\n${NETWORKS[network].label} (${NETWORKS[network].frameworkRev})`);
+
+    for (const template of TEMPLATES) {
+      const result = await runMoveTests(template.moveFiles, network);
+      const passed = result.tests.filter(test => test.status === 'pass').length;
+
+      if (result.success) {
+        console.log(`  ok    ${template.id}: ${passed} tests passed`);
+        continue;
+      }
+
+      failures++;
+      const errors = result.diagnostics.filter(d => d.severity === 'error');
+      if (errors.length > 0) {
+        console.log(`  FAIL  ${template.id}: build failed`);
+        console.log(formatMoveDiagnostics(errors).replace(/^/gm, '        '));
+      } else {
+        console.log(`  FAIL  ${template.id}: ${passed} of ${result.tests.length} tests passed`);
+        for (const test of result.tests.filter(test => test.status !== 'pass')) {
+          console.log(`        ${test.name}: ${test.message || test.status}`);
+        }
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} template check(s) failed`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+import { buildMovePackage } from '@/lib/moveBuild';
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { DEFAULT_NETWORK, isSuiNetwork } from '@/lib/networks';
+
+// Compiles the Move package without funding a wallet or publishing anything
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { network = DEFAULT_NETWORK } = body;
+
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let moveFiles: MoveFiles;
+    try {
+      moveFiles = resolveMoveFiles(body);
+    } catch (validationError) {
+      return new Response(
+        JSON.stringify({ error: (validationError as Error).message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const build = await buildMovePackage(moveFiles, network);
+
+    return new Response(
+      JSON.stringify({
+        success: build.success,
+        modules: build.modules,
+        dependencies: build.dependencies,
+        digest: build.digest,
+        errors: build.diagnostics.filter(d => d.severity === 'error'),
+        warnings: build.diagnostics.filter(d => d.severity === 'warning'),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Compilation error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to compile contract',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,221 +1,299 @@
-import { execSync } from 'child_process';
-import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
-import { getFullnodeUrl, SuiClient } from '@mysten/sui.js/client';
-import { TransactionBlock } from '@mysten/sui.js/transactions';
-import fs from 'fs';
-import path from 'path';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { parseCreatedObjects, primaryObjectId, summarizeObjects } from '@/lib/deployedObjects';
+import { fundBurnerWallet } from '@/lib/faucet';
+import { dryRunWithEstimate } from '@/lib/gasEstimate';
+import { saveDeployerKey } from '@/lib/keyVault';
+import { buildMovePackage } from '@/lib/moveBuild';
+import { blockingFindings, lintMovePackage } from '@/lib/moveLint';
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { DEFAULT_NETWORK, isSuiNetwork, NETWORKS } from '@/lib/networks';
+import { FrontendFiles, resolveFrontendFiles, SIGNING_MODES } from '@/lib/previewTemplate';
+import { addDeployment, getProject } from '@/lib/projects';
+import { createSigningSession } from '@/lib/signingSessions';
 
 // Environment variables
 const MASTER_WALLET_MNEMONIC = process.env.MASTER_WALLET_MNEMONIC;
-const SUI_NETWORK = process.env.SUI_NETWORK || 'testnet';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 export async function POST(request: Request) {
   try {
-    const { moveCode } = await request.json();
+    const body = await request.json();
+    const {
+      projectId,
+      generationId,
+      network = DEFAULT_NETWORK,
+      signingMode = 'burner',
+      blockOnLint = false,
+      dryRun = false,
+    } = body;
+
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-    if (!moveCode) {
+    if (!SIGNING_MODES.includes(signingMode)) {
       return new Response(
-        JSON.stringify({ error: 'Move code is required' }),
+        JSON.stringify({ error: `Unknown signing mode: ${signingMode}` }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // 1. Create a temporary directory for the Move project
-    const tempDir = path.join(process.cwd(), 'temp-contract');
-    const sourcesDir = path.join(tempDir, 'sources');
-    const moveTomlPath = path.join(tempDir, 'Move.toml');
-    const moveFilePath = path.join(sourcesDir, 'contract.move');
+    // Without a faucet a burner can't pay for the publish
+    if (!NETWORKS[network].faucetUrl && !MASTER_WALLET_MNEMONIC) {
+      return new Response(
+        JSON.stringify({ error: `Deploying to ${network} needs MASTER_WALLET_MNEMONIC to be set` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
+    // Checked before publishing, since a deployment that can't be recorded is hard to find again
+    if (projectId && !(await getProject(projectId))) {
+      return new Response(
+        JSON.stringify({ error: 'Project not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let moveFiles: MoveFiles;
+    let frontendFiles: FrontendFiles;
     try {
-      // Create directory structure
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-        fs.mkdirSync(sourcesDir, { recursive: true });
-      }
+      moveFiles = resolveMoveFiles(body);
+      frontendFiles = resolveFrontendFiles(body);
+    } catch (validationError) {
+      return new Response(
+        JSON.stringify({ error: (validationError as Error).message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-      // 2. Create Move.toml
-      const moveTomlContent = `[package]
-name = "temp_contract"
-version = "0.0.1"
-edition = "2024.beta"
-
-[dependencies]
-Sui = { git = "https://github.com/MystenLabs/sui.git", subdir = "crates/sui-framework/packages/sui-framework", rev = "framework/testnet" }
-
-[addresses]
-temp_contract = "0x0"
-`;
-      fs.writeFileSync(moveTomlPath, moveTomlContent);
-
-      // 3. Write the Move code
-      fs.writeFileSync(moveFilePath, moveCode);
-
-      // 4. Build the Move package
-      const buildOutput = execSync('sui move build --dump-bytecode-as-base64', {
-        cwd: tempDir,
-        encoding: 'utf-8',
-      });
-
-      // 5. Parse the build output to get the compiled modules
-      const modulesMatch = buildOutput.match(/Compiled Modules: \[([^\]]+)\]/);
-      if (!modulesMatch) {
-        throw new Error('Failed to extract compiled modules from build output');
+    // Refuse code with high-severity lint findings if the client asked to
+    if (blockOnLint) {
+      const findings = blockingFindings(lintMovePackage(moveFiles));
+      if (findings.length > 0) {
+        return new Response(
+          JSON.stringify({ error: 'Deploy blocked by high-severity lint findings', lintFindings: findings }),
+          { status: 422, headers: { 'Content-Type': 'application/json' } }
+        );
       }
+    }
 
-      const modules = modulesMatch[1]
-        .split(',')
-        .map((m: string) => m.trim().replace(/"/g, ''))
-        .filter(Boolean);
-
-      // 6. Set up the Sui client
-      const client = new SuiClient({ url: getFullnodeUrl(SUI_NETWORK) });
-
-      // 7. Generate or use the master wallet
-      let keypair;
-      let isUsingMasterWallet = false;
-
-      if (MASTER_WALLET_MNEMONIC) {
-        // Use the master wallet for deployment
-        keypair = Ed25519Keypair.deriveKeypair(MASTER_WALLET_MNEMONIC);
-        isUsingMasterWallet = true;
-      } else {
-        // Fallback: Generate a new burner wallet
-        keypair = Ed25519Keypair.generate();
-      }
+    // 1. Build the Move package against the network's framework
+    const build = await buildMovePackage(moveFiles, network);
+    if (!build.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Move compilation failed',
+          diagnostics: build.diagnostics,
+        }),
+        { status: 422, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-      const address = keypair.getPublicKey().toSuiAddress();
-      const privateKeyHex = Buffer.from(keypair.getSecretKey().slice(0, 32)).toString('hex');
-
-      // 8. Fund the wallet if needed (only for testnet/devnet)
-      if (!isUsingMasterWallet && (SUI_NETWORK === 'testnet' || SUI_NETWORK === 'devnet')) {
-        try {
-          // Try to request from faucet first
-          await fetch(`https://faucet.${SUI_NETWORK}.sui.io/gas`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ FixedAmountRequest: { recipient: address } }),
-          });
-
-          // Wait for the transaction to complete
-          await new Promise(resolve => setTimeout(resolve, 3000));
-        } catch (error) {
-          console.warn('Faucet request failed, trying master wallet funding...');
-          
-          if (MASTER_WALLET_MNEMONIC) {
-            const masterKeypair = Ed25519Keypair.deriveKeypair(MASTER_WALLET_MNEMONIC);
-            const masterClient = new SuiClient({ url: getFullnodeUrl(SUI_NETWORK) });
-            
-            const tx = new TransactionBlock();
-            const [coin] = tx.splitCoins(tx.gas, [tx.pure(1000000000)]); // 1 SUI
-            tx.transferObjects([coin], tx.pure(address));
-            
-            await masterClient.signAndExecuteTransactionBlock({
-              signer: masterKeypair,
-              transactionBlock: tx,
-            });
-
-            // Wait for the transaction to complete
-            await new Promise(resolve => setTimeout(resolve, 3000));
-          }
-        }
-      }
+    const { modules, dependencies } = build;
 
-      // 9. Publish the package using TransactionBlock
-      const tx = new TransactionBlock();
-      tx.setSender(address);
-      tx.setGasBudget(100000000); // 0.1 SUI
-      const [upgradeCap] = tx.publish({ modules });
-
-      const publishTxn = await client.signAndExecuteTransactionBlock({
-        transactionBlock: tx,
-        signer: keypair,
-        options: {
-          showEffects: true,
-          showObjectChanges: true,
-        },
-      });
-
-      // 10. Extract package ID and object ID
-      const packageId = publishTxn.objectChanges?.find(
-        (change: any) => change.type === 'published'
-      )?.packageId;
-
-      if (!packageId) {
-        throw new Error('Failed to extract package ID from transaction');
-      }
+    // 2. Set up the Sui client
+    const client = new SuiClient({ url: NETWORKS[network].rpcUrl });
 
-      // 11. Try to call the init function
-      let objectId = null;
-      const moduleNameMatch = moveCode.match(/module\s+(\w+)\s*::\s*(\w+)/) || 
-                            moveCode.match(/module\s+(\w+)\s*\{/);
-      
-      if (moduleNameMatch) {
-        const moduleName = moduleNameMatch[moduleNameMatch.length - 1];
-        
-        try {
-          const initTx = new TransactionBlock();
-          initTx.moveCall({
-            target: `${packageId}::${moduleName}::init`,
-          });
-
-          const initResult = await client.signAndExecuteTransactionBlock({
-            signer: keypair,
-            transactionBlock: initTx,
-          });
-
-          // Try to extract the created object ID
-          if (initResult.objectChanges) {
-            const createdObject = initResult.objectChanges.find(
-              (change: any) => change.type === 'created'
-            );
-            if (createdObject) {
-              objectId = createdObject.objectId;
-            }
-          }
-        } catch (error) {
-          console.warn('Failed to call init function:', error);
-          // Continue without objectId - some contracts might not have an init function
-        }
-      }
+    // 3. Generate or use the master wallet
+    let keypair;
+    let isUsingMasterWallet = false;
 
-      // 12. Clean up the temporary directory
-      try {
-        fs.rmSync(tempDir, { recursive: true, force: true });
-      } catch (cleanupError) {
-        console.warn('Failed to clean up temporary directory:', cleanupError);
-      }
+    if (MASTER_WALLET_MNEMONIC) {
+      // Use the master wallet for deployment
+      keypair = Ed25519Keypair.deriveKeypair(MASTER_WALLET_MNEMONIC);
+      isUsingMasterWallet = true;
+    } else {
+      // Fallback: Generate a new burner wallet
+      keypair = Ed25519Keypair.generate();
+    }
+
+    const address = keypair.getPublicKey().toSuiAddress();
+
+    // 4. Build the publish transaction
+    const tx = new Transaction();
+    tx.setSender(address);
+    const [upgradeCap] = tx.publish({ modules, dependencies });
+    // The deployer keeps the UpgradeCap so the package can be upgraded later
+    tx.transferObjects([upgradeCap], tx.pure.address(address));
 
-      // 13. Return the results
+    // 5. Dry run it to price the publish; this runs on a mock gas coin, so a
+    // burner doesn't need funds yet
+    const dryRunResult = await dryRunWithEstimate(client, tx, address);
+    const { estimate } = dryRunResult;
+    if (!dryRunResult.success) {
       return new Response(
         JSON.stringify({
-          packageId,
-          objectId,
-          privateKeyHex,
-          address,
+          error: 'Publish rejected by the network',
+          details: dryRunResult.error,
+          estimate,
+        }),
+        { status: 422, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Estimate only: the client shows the cost and asks before publishing
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({
+          network,
+          estimate,
+          createdObjects: dryRunResult.createdObjects,
           isUsingMasterWallet,
         }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
       );
+    }
 
-    } catch (error) {
-      // Clean up the temporary directory in case of error
+    // 6. Fund the burner wallet and check it can cover the estimate
+    if (!isUsingMasterWallet) {
+      await fundBurnerWallet(address, network);
+    }
+
+    const { totalBalance } = await client.getBalance({ owner: address });
+    const required = BigInt(estimate.computationCost) + BigInt(estimate.storageCost);
+    if (BigInt(totalBalance) < required) {
+      return new Response(
+        JSON.stringify({
+          error: 'The deployer does not have enough SUI to publish',
+          details: `${address} holds ${totalBalance} MIST; the publish needs about ${required} MIST`,
+          estimate,
+        }),
+        { status: 402, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 7. Publish with a budget derived from the estimate, capped at what the
+    // deployer holds since the margin is only headroom
+    const gasBudget = BigInt(estimate.gasBudget) < BigInt(totalBalance) ? estimate.gasBudget : totalBalance;
+    tx.setGasBudget(BigInt(gasBudget));
+
+    const publishTxn = await client.signAndExecuteTransaction({
+      transaction: tx,
+      signer: keypair,
+      options: {
+        showEffects: true,
+        showObjectChanges: true,
+      },
+    });
+
+    // Problems after the publish; the package is live, so they're reported next to it
+    const warnings: string[] = [];
+
+    // A burner's key is the only way to use its UpgradeCap again, so keep it
+    // before anything else can fail
+    if (!isUsingMasterWallet) {
       try {
-        if (fs.existsSync(tempDir)) {
-          fs.rmSync(tempDir, { recursive: true, force: true });
-        }
-      } catch (cleanupError) {
-        console.warn('Failed to clean up temporary directory:', cleanupError);
+        await saveDeployerKey(keypair);
+      } catch (keyError) {
+        console.error('Failed to store the deployer key:', keyError);
+        warnings.push(`The deployer key could not be stored, so this package can't be upgraded: ${errorMessage(keyError)}`);
       }
+    }
 
-      throw error;
+    // 8. Read what the publish created. Each module's `init` runs as part of the
+    // publish itself, so its objects show up in this transaction's object changes.
+    if (publishTxn.effects?.status.status !== 'success') {
+      throw new Error(`Publish failed: ${publishTxn.effects?.status.error || 'unknown error'}`);
     }
 
+    let packageId: string | null = null;
+    for (const change of publishTxn.objectChanges || []) {
+      if (change.type === 'published') {
+        packageId = change.packageId;
+      }
+    }
+
+    if (!packageId) {
+      throw new Error('Failed to extract package ID from transaction');
+    }
+
+    const createdObjects = parseCreatedObjects(publishTxn.objectChanges);
+    const objects = summarizeObjects(createdObjects);
+    const upgradeCapId = objects.upgradeCap?.objectId || null;
+    const objectId = primaryObjectId(createdObjects, packageId);
+
+    // 9. Hand the preview a signing session instead of a key. The master wallet
+    // is never exposed, so a master-wallet deploy needs its own funded burner.
+    // Funding falls back to a transfer from the master wallet, so that burner
+    // is only made for burner-mode frontends and on networks with a faucet.
+    let signingSession = null;
+    try {
+      if (!isUsingMasterWallet) {
+        signingSession = await createSigningSession(keypair, packageId, network);
+      } else if (signingMode === 'burner' && NETWORKS[network].faucetUrl) {
+        const sessionKeypair = Ed25519Keypair.generate();
+        await fundBurnerWallet(sessionKeypair.getPublicKey().toSuiAddress(), network);
+        signingSession = await createSigningSession(sessionKeypair, packageId, network);
+      } else if (signingMode === 'burner') {
+        warnings.push(`The preview has no signer: ${NETWORKS[network].label} has no faucet to fund one`);
+      }
+    } catch (sessionError) {
+      console.error('Failed to create the preview signing session:', sessionError);
+      warnings.push(`The preview has no signer: ${errorMessage(sessionError)}`);
+    }
+
+    // 10. Record the deployment in the project history
+    let deploymentId = null;
+    if (projectId) {
+      try {
+        const deployment = await addDeployment(projectId, {
+          generationId: generationId || null,
+          network,
+          packageId,
+          originalPackageId: packageId,
+          version: 1,
+          upgradedFrom: null,
+          upgradeCapId,
+          deployerAddress: address,
+          objectId,
+          createdObjects,
+          signingSessionId: signingSession?.id || '',
+          signingAddress: signingSession?.address || '',
+          moveFiles,
+          frontendFiles,
+        });
+        deploymentId = deployment.id;
+      } catch (recordError) {
+        console.error('Failed to record the deployment:', recordError);
+        warnings.push(`The deployment is missing from the project history: ${errorMessage(recordError)}`);
+      }
+    }
+
+    // 11. Return the results
+    return new Response(
+      JSON.stringify({
+        packageId,
+        network,
+        upgradeCapId,
+        objectId,
+        createdObjects,
+        objects,
+        deploymentId,
+        address,
+        isUsingMasterWallet,
+        estimate,
+        gasUsed: publishTxn.effects.gasUsed,
+        signingSessionId: signingSession?.id || null,
+        signingAddress: signingSession?.address || null,
+        warnings,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
   } catch (error) {
     console.error('Deployment error:', error);
     return new Response(
       JSON.stringify({ 
         error: 'Failed to deploy contract',
-        details: error instanceof Error ? error.message : String(error)
+        details: errorMessage(error)
       }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
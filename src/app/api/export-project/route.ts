@@ -0,0 +1,99 @@
+import { SuiClient } from '@mysten/sui/client';
+import { generateContractBindings } from '@/lib/contractBindings';
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { DEFAULT_NETWORK, isSuiNetwork, NETWORKS } from '@/lib/networks';
+import { exportProjectFiles, exportSlug, ExportedDeployment } from '@/lib/projectExport';
+import { FrontendFiles, legacyFrontendError, resolveFrontendFiles, SIGNING_MODES } from '@/lib/previewTemplate';
+import { createZipArchive } from '@/lib/zipArchive';
+
+// Packages the Move sources and the frontend as a standalone project zip
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { name = 'Sui DApp', network = DEFAULT_NETWORK, signingMode = 'burner' } = body;
+    const deployment: ExportedDeployment | null = body.deployment?.packageId ? body.deployment : null;
+
+    // 1. Validate the request
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!SIGNING_MODES.includes(signingMode)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown signing mode: ${signingMode}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let moveFiles: MoveFiles;
+    let frontendFiles: FrontendFiles;
+    try {
+      moveFiles = resolveMoveFiles(body);
+      frontendFiles = resolveFrontendFiles(body);
+    } catch (validationError) {
+      return new Response(
+        JSON.stringify({ error: (validationError as Error).message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The exported app has no way to run a legacy frontend either
+    const legacyError = legacyFrontendError(frontendFiles);
+    if (legacyError) {
+      return new Response(
+        JSON.stringify({ error: legacyError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Generate the bindings from the deployed package's ABI, as the preview
+    // does, with the package ID read from `.env`
+    let contractBindings: string | null = null;
+    if (deployment) {
+      try {
+        const client = new SuiClient({ url: NETWORKS[network].rpcUrl });
+        const modules = await client.getNormalizedMoveModulesByPackage({ package: deployment.packageId });
+        contractBindings = generateContractBindings(deployment.packageId, modules, 'import.meta.env.VITE_PACKAGE_ID');
+      } catch (abiError) {
+        return new Response(
+          JSON.stringify({
+            error: 'Failed to read the deployed package',
+            details: abiError instanceof Error ? abiError.message : String(abiError),
+          }),
+          { status: 502, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // 3. Assemble the project and zip it
+    const archive = createZipArchive(exportProjectFiles({
+      name,
+      network,
+      signingMode,
+      moveFiles,
+      frontendFiles,
+      deployment,
+      contractBindings,
+    }));
+
+    return new Response(new Uint8Array(archive), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${exportSlug(name)}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to export project',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,6 +1,23 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  GENERATED_DAPP_JSON_SCHEMA,
+  GeneratedDapp,
+  GeneratedDappError,
+  parseGeneratedDapp,
+  readPartialDapp,
+} from '@/lib/generationSchema';
+import { addTokenUsage, getLlmProvider, isLlmProviderName, LlmProvider, TokenUsage } from '@/lib/llm';
+import { buildMovePackage, formatMoveDiagnostics, MoveDiagnostic } from '@/lib/moveBuild';
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { DEFAULT_NETWORK, isSuiNetwork, SuiNetwork } from '@/lib/networks';
+import { parsePartialJson } from '@/lib/partialJson';
+import { FrontendFiles, resolveFrontendFiles, SIGNING_MODES, SigningMode } from '@/lib/previewTemplate';
+import { addGeneration, createProject, getProject } from '@/lib/projects';
+import { encodeEvent } from '@/lib/serverSentEvents';
+import { getTemplate } from '@/lib/templates';
+import { generationChain } from '@/lib/versionHistory';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+// How many times the model may retry after a failed `sui move build`
+const MOVE_REPAIR_ROUNDS = Number(process.env.MOVE_REPAIR_ROUNDS || 3);
 
 const SYSTEM_PROMPT = `
 You are an expert Move and React developer, specialized in building Sui blockchain applications using the 2024.beta edition.
@@ -8,14 +25,34 @@ Generate a complete, working Sui Move smart contract and corresponding React fro
 
 IMPORTANT: Your response MUST be a valid JSON string with the following structure:
 {
-  "moveCode": "string_containing_move_code",
-  "frontendCode": "string_containing_react_code"
+  "metadata": {
+    "dappName": "short_name_of_the_dapp",
+    "description": "one_sentence_describing_the_dapp",
+    "entryFunctions": [
+      { "module": "module_name", "name": "function_name", "description": "what_calling_it_does" }
+    ]
+  },
+  "moveFiles": [
+    { "path": "sources/module_name.move", "content": "string_containing_move_code" },
+    { "path": "tests/module_name_tests.move", "content": "string_containing_move_test_code" }
+  ],
+  "frontendFiles": [
+    { "path": "src/App.tsx", "content": "string_containing_react_code" }
+  ]
 }
 
 CRITICAL REQUIREMENTS:
 
-1. MOVE CONTRACT (2024.beta EDITION):
-   - Module must be named 'contract' (module temp_contract::contract)
+1. MOVE PACKAGE (2024.beta EDITION):
+   - "moveFiles" lists the package's files by package-relative path; paths must be 'sources/<name>.move' or 'tests/<name>.move'
+   - Use one file per module, named after the module (module temp_contract::marketplace goes in sources/marketplace.move)
+   - Every module must live under the 'temp_contract' address (module temp_contract::<name>)
+   - Simple DApps can use a single module named 'contract' (module temp_contract::contract)
+   - Test modules go under tests/ and must be annotated with #[test_only]
+   - Include a tests/<module>_tests.move for each module with #[test] functions covering every entry function,
+     using sui::test_scenario; tests of expected aborts use #[expected_failure(abort_code = <module>::<ECode>)]
+   - init is private, so give each module with an init a '#[test_only] public fun init_for_testing(ctx: &mut TxContext)'
+     that calls init (constructing the OTW inside the module if init takes one)
    - Add 'edition = "2024.beta"' to [package] in Move.toml
    - Use the exact 'use' statements provided below to avoid compilation errors
 
@@ -34,7 +71,7 @@ CRITICAL REQUIREMENTS:
 
 3. STRUCT DECLARATIONS:
    - Main DApp object: 'public struct YourStructName has key, store { ... }'
-   - OTW struct: 'public struct CONTRACT has drop {}' (MUST be named CONTRACT)
+   - OTW struct: named after its module in uppercase, e.g. 'public struct CONTRACT has drop {}' in module 'contract'
    - Other structs should be 'public' if used in public functions
 
 4. DISPLAY PATTERN (2024.beta SYNTAX - MUST FOLLOW EXACTLY):
@@ -50,6 +87,7 @@ CRITICAL REQUIREMENTS:
 
 5. INIT FUNCTION (MUST FOLLOW EXACTLY):
    - Must be internal (NOT public): 'fun init(otw: CONTRACT, ctx: &mut TxContext) { ... }'
+   - Only the module that owns the DApp's main object needs the OTW, publisher and display setup
    - Define display constants at the top of the function:
      'const APP_NAME_CONST: vector<u8> = b"Your App Name";'
      'const APP_DESC_CONST: vector<u8> = b"Your App Description";'
@@ -64,28 +102,386 @@ CRITICAL REQUIREMENTS:
    - If ctx parameter is unused, prefix with underscore: _ctx
    - Example: 'public entry fun increment(counter: &mut Counter, _ctx: &mut TxContext) { ... }'
 
-6. REACT FRONTEND:
-   - Use @mysten/sui.js (not dapp-kit)
-   - Include placeholders: {{PACKAGE_ID}}, {{OBJECT_ID}}, {{BURNER_PRIVATE_KEY_HEX}}
-   - Initialize SuiClient and Keypair
-   - Handle loading/error states
+{{FRONTEND_RULES}}
 
 7. RESPONSE FORMAT:
    - Return ONLY the JSON object
    - No markdown code blocks
    - Escape special characters properly
+   - "metadata.entryFunctions" lists every function the frontend calls, by module and function name
+   - "frontendFiles" must include 'src/App.tsx' with a default-exported App component; other components,
+     hooks or CSS may go in further files under src/ (.tsx, .ts or .css)
+   - Do not write src/main.tsx, src/studioSigner.ts, src/global.d.ts or src/contract.ts; the studio provides them
 
 Example for a counter DApp:
 {
-  "moveCode": "module temp_contract::contract {\\n    use sui::object::{Self, UID};\\n    use sui::object;\\n    use sui::transfer::share_object;\\n    use sui::tx_context::TxContext;\\n    use sui::package;\\n    use sui::display;\\n    use std::string;\\n\\n    public struct Counter has key, store {\\n        id: UID,\\n        value: u64,\\n    }\\n\\n    public struct CONTRACT has drop {}\\n\\n    const APP_NAME: vector<u8> = b\\\\"Counter DApp\\\\";\\n    const APP_DESC: vector<u8> = b\\\\"A simple counter\\\\";\\n\\n    public fun init(otw: CONTRACT, ctx: &mut TxContext) {\\n        let counter = Counter {\\n            id: object::new(ctx),\\n            value: 0,\\n        };\\n\\n        let publisher = package::claim(otw, ctx);\\n        let mut display = display::new<Counter>(&publisher, ctx);\\n        display::add_field(&mut display, b\\\\"name\\\\", string::utf8(APP_NAME));\\n        display::add_field(&mut display, b\\\\"description\\\\", string::utf8(APP_DESC));\\n        display::update_version(&mut display);\\n        package::burn_publisher(publisher);\\n\\n        share_object(counter);\\n    }\\n\\n    public entry fun increment(counter: &mut Counter, _ctx: &mut TxContext) {\\n        counter.value = counter.value + 1;\\n    }\\n}",
-  "frontendCode": "import React, { useState, useEffect } from 'react';\\nimport { TransactionBlock } from '@mysten/sui.js/transactions';\\nimport { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';\\nimport { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';\\n\\nexport default function App() {\\n  const [counter, setCounter] = useState<number>(0);\\n  const [loading, setLoading] = useState<boolean>(false);\\n  const [error, setError] = useState<string | null>(null);\\n\\n  const client = new SuiClient({ url: getFullnodeUrl('testnet') });\\n  const keypair = Ed25519Keypair.fromSecretKey(\\n    Uint8Array.from(Buffer.from('{{BURNER_PRIVATE_KEY_HEX}}', 'hex'))\\n  );\\n\\n  const fetchCounter = async () => {\\n    try {\\n      const result = await client.getObject({\\n        id: '{{OBJECT_ID}}',\\n        options: { showContent: true },\\n      });\\n      \\n      if (result.data?.content?.dataType === 'moveObject') {\\n        const fields = result.data.content.fields as { value: string };\\n        setCounter(Number(fields.value));\\n      }\\n    } catch (err) {\\n      setError('Failed to fetch counter');\\n      console.error(err);\\n    }\\n  };\\n\\n  const increment = async () => {\\n    setLoading(true);\\n    setError(null);\\n    \\n    try {\\n      const tx = new TransactionBlock();\\n      tx.moveCall({\\n        target: '{{PACKAGE_ID}}::contract::increment',\\n        arguments: [tx.object('{{OBJECT_ID}}')],\\n      });\\n\\n      await client.signAndExecuteTransactionBlock({\\n        signer: keypair,\\n        transactionBlock: tx,\\n      });\\n      \\n      await fetchCounter();\\n    } catch (err) {\\n      setError('Failed to increment counter');\\n      console.error(err);\\n    } finally {\\n      setLoading(false);\\n    }\\n  };\\n\\n  useEffect(() => {\\n    fetchCounter();\\n  }, []);\\n\\n  return (\\n    <div style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>\\n      <h1>Counter DApp</h1>\\n      <div>Current value: {counter}</div>\\n      <button \\n        onClick={increment} \\n        disabled={loading}\\n        style={{\\n          marginTop: '10px',\\n          padding: '8px 16px',\\n          backgroundColor: loading ? '#ccc' : '#007bff',\\n          color: 'white',\\n          border: 'none',\\n          borderRadius: '4px',\\n          cursor: loading ? 'not-allowed' : 'pointer',\\n        }}\\n      >\\n        {loading ? 'Processing...' : 'Increment'}\\n      </button>\\n      {error && (\\n        <div style={{ color: 'red', marginTop: '10px' }}>\\n          Error: {error}\\n        </div>\\n      )}\\n    </div>\\n  );\\n}"
+  "metadata": {
+    "dappName": "Counter DApp",
+    "description": "A shared counter anyone can increment",
+    "entryFunctions": [
+      { "module": "contract", "name": "increment", "description": "Adds one to the counter" }
+    ]
+  },
+  "moveFiles": [
+    { "path": "sources/contract.move", "content": "module temp_contract::contract {\\n    use sui::object::{Self, UID};\\n    use sui::object;\\n    use sui::transfer::share_object;\\n    use sui::tx_context::TxContext;\\n    use sui::package;\\n    use sui::display;\\n    use std::string;\\n\\n    public struct Counter has key, store {\\n        id: UID,\\n        value: u64,\\n    }\\n\\n    public struct CONTRACT has drop {}\\n\\n    const APP_NAME: vector<u8> = b\\\\"Counter DApp\\\\";\\n    const APP_DESC: vector<u8> = b\\\\"A simple counter\\\\";\\n\\n    fun init(otw: CONTRACT, ctx: &mut TxContext) {\\n        let counter = Counter {\\n            id: object::new(ctx),\\n            value: 0,\\n        };\\n\\n        let publisher = package::claim(otw, ctx);\\n        let mut display = display::new<Counter>(&publisher, ctx);\\n        display::add_field(&mut display, b\\\\"name\\\\", string::utf8(APP_NAME));\\n        display::add_field(&mut display, b\\\\"description\\\\", string::utf8(APP_DESC));\\n        display::update_version(&mut display);\\n        package::burn_publisher(publisher);\\n\\n        share_object(counter);\\n    }\\n\\n    public entry fun increment(counter: &mut Counter, _ctx: &mut TxContext) {\\n        counter.value = counter.value + 1;\\n    }\\n}" }
+  ],
+  "frontendFiles": [
+    { "path": "src/App.tsx", "content": "import React, { useState, useEffect } from 'react';\\nimport { Transaction } from '@mysten/sui/transactions';\\nimport { SuiClient, getFullnodeUrl } from '@mysten/sui/client';\\nimport { signAndExecute } from './studioSigner';\\nimport { contract, Counter } from './contract';\\n\\nexport default function App() {\\n  const [counter, setCounter] = useState<number>(0);\\n  const [loading, setLoading] = useState<boolean>(false);\\n  const [error, setError] = useState<string | null>(null);\\n\\n  const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });\\n\\n  const fetchCounter = async () => {\\n    try {\\n      const counter = await Counter.fetch(client, '{{OBJECT_ID}}');\\n      setCounter(Number(counter.value));\\n    } catch (err) {\\n      setError('Failed to fetch counter');\\n      console.error(err);\\n    }\\n  };\\n\\n  const increment = async () => {\\n    setLoading(true);\\n    setError(null);\\n    \\n    try {\\n      const tx = new Transaction();\\n      contract.increment(tx, '{{OBJECT_ID}}');\\n\\n      await signAndExecute(tx);\\n      \\n      await fetchCounter();\\n    } catch (err) {\\n      setError('Failed to increment counter');\\n      console.error(err);\\n    } finally {\\n      setLoading(false);\\n    }\\n  };\\n\\n  useEffect(() => {\\n    fetchCounter();\\n  }, []);\\n\\n  return (\\n    <div style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>\\n      <h1>Counter DApp</h1>\\n      <div>Current value: {counter}</div>\\n      <button \\n        onClick={increment} \\n        disabled={loading}\\n        style={{\\n          marginTop: '10px',\\n          padding: '8px 16px',\\n          backgroundColor: loading ? '#ccc' : '#007bff',\\n          color: 'white',\\n          border: 'none',\\n          borderRadius: '4px',\\n          cursor: loading ? 'not-allowed' : 'pointer',\\n        }}\\n      >\\n        {loading ? 'Processing...' : 'Increment'}\\n      </button>\\n      {error && (\\n        <div style={{ color: 'red', marginTop: '10px' }}>\\n          Error: {error}\\n        </div>\\n      )}\\n    </div>\\n  );\\n}" }
+  ]
 }
 
-Now generate a complete implementation for: {{USER_PROMPT}}`;
+{{TASK}}`;
+
+// The last part of the system prompt for a fresh DApp
+const GENERATE_TASK = `Now generate a complete implementation for: {{USER_PROMPT}}`;
+
+// The last part of the system prompt for a follow-up change to existing code
+const REFINE_TASK = `You are continuing work on an existing DApp. Requests made so far, oldest first:
+{{CONVERSATION}}
+
+CURRENT MOVE FILES:
+{{MOVE_FILES}}
+
+CURRENT FRONTEND FILES:
+{{FRONTEND_FILES}}
+
+The current files may include manual edits; treat them as the source of truth. Apply the change
+below and return the complete DApp in the JSON format above, including files that did not change.
+Keep names, behaviour and style that the change does not touch. List a file under its existing
+path to update it and leave a file out only to delete it.
+
+CHANGE REQUEST: {{USER_PROMPT}}`;
+
+// How the frontend reaches the contract, shared by both signing modes
+const CONTRACT_BINDINGS_RULES = `   - Build move calls and read objects with the typed bindings the studio generates from the deployed
+     package in './contract'. Never write moveCall target strings or cast 'content.fields' by hand:
+     - Each module is exported under its name, with one function per public or entry function. It takes the
+       Transaction, then the type arguments as an array if the function is generic, then the Move
+       parameters in order without the TxContext, and returns the call's result:
+       "import { contract, Counter } from './contract';" then 'contract.increment(tx, "{{OBJECT_ID}}")'
+     - Object parameters take an object ID or an object argument such as tx.gas; u64/u128/u256 take
+       bigint | number | string, vector<T> an array, Option<T> the value or null
+     - Each struct is exported under its name (prefixed with the PascalCase module name if two modules
+       define the same name) as an interface and a decoder: 'await Counter.fetch(client, id)' returns the
+       typed fields, 'Counter.fromFields(fields)' decodes fields you already have. u64 and larger fields are
+       bigint, UID and ID fields are the ID string, Option fields are the value or null`;
+
+// Section 6 of the system prompt, per signing mode
+const FRONTEND_RULES: Record<SigningMode, string> = {
+  burner: `6. REACT FRONTEND:
+   - Use @mysten/sui (not dapp-kit or the legacy @mysten/sui.js): Transaction from '@mysten/sui/transactions',
+     SuiClient and getFullnodeUrl from '@mysten/sui/client'
+   - Include placeholders: {{PACKAGE_ID}}, {{OBJECT_ID}} (the main object created in init), {{NETWORK}} (the network it is deployed to)
+   - Move types keep the address of the package's first version, so after an upgrade {{PACKAGE_ID}} no longer
+     matches them: write type strings (coin types, StructType filters, MoveEventType queries) with
+     {{ORIGINAL_PACKAGE_ID}}, e.g. '{{ORIGINAL_PACKAGE_ID}}::token::TOKEN', and move call targets with {{PACKAGE_ID}}
+   - For any other object created in init, use '{{OBJECT_ID:module_name::StructName}}', e.g. '{{OBJECT_ID:contract::Counter}}'
+${CONTRACT_BINDINGS_RULES}
+   - Initialize SuiClient for reads with 'getFullnodeUrl("{{NETWORK}}")'; NEVER create a Keypair or embed any private key
+   - Execute transactions with the studio's signing proxy: "import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';"
+     then 'await signAndExecute(tx)'. SIGNER_ADDRESS is the address that signs, e.g. for reading owned objects
+   - The proxy only signs move calls into {{PACKAGE_ID}}; do not build splitCoins/transferObjects commands
+   - Handle loading/error states`,
+  wallet: `6. REACT FRONTEND (BROWSER WALLET MODE):
+   - Use @mysten/sui for SuiClient and Transaction (not the legacy @mysten/sui.js), and @mysten/wallet-standard
+     for wallet access (not dapp-kit)
+   - Do NOT create a Keypair and do NOT import './studioSigner'; the user's wallet signs every transaction
+   - Include placeholders: {{PACKAGE_ID}}, {{OBJECT_ID}} (the main object created in init), {{NETWORK}} (the network it is deployed to)
+   - Move types keep the address of the package's first version, so after an upgrade {{PACKAGE_ID}} no longer
+     matches them: write type strings (coin types, StructType filters, MoveEventType queries) with
+     {{ORIGINAL_PACKAGE_ID}}, e.g. '{{ORIGINAL_PACKAGE_ID}}::token::TOKEN', and move call targets with {{PACKAGE_ID}}
+   - For any other object created in init, use '{{OBJECT_ID:module_name::StructName}}', e.g. '{{OBJECT_ID:contract::Counter}}'
+${CONTRACT_BINDINGS_RULES}
+   - Discover wallets with 'getWallets().get()' and keep those where
+     'isWalletWithRequiredFeatureSet(wallet, ["sui:signAndExecuteTransaction"])'
+   - Show a "Connect Wallet" button that calls 'wallet.features["standard:connect"].connect()' and keeps 'wallet.accounts[0]'
+   - Execute transactions with
+     'wallet.features["sui:signAndExecuteTransaction"].signAndExecuteTransaction({ transaction: tx, account, chain: "sui:{{NETWORK}}" })'
+   - Read on-chain state with 'new SuiClient({ url: getFullnodeUrl("{{NETWORK}}") })'; disable actions until a wallet is connected
+   - Handle loading/error states, including the user rejecting a request in their wallet
+   - The example below signs through './studioSigner'; replace that part with the wallet flow above`,
+};
+
+const REPAIR_PROMPT = `
+The Sui Move package you generated previously fails to compile with \`sui move build\`.
+Fix every compiler error below while keeping the contract's behaviour, and update the React frontend
+if any function names, arguments or struct fields change. All the requirements from the original
+instructions still apply.
+
+IMPORTANT: Your response MUST be a valid JSON string with the same structure as before:
+{
+  "metadata": { "dappName": "...", "description": "...", "entryFunctions": [{ "module": "...", "name": "...", "description": "..." }] },
+  "moveFiles": [{ "path": "sources/module_name.move", "content": "string_containing_move_code" }],
+  "frontendFiles": [{ "path": "src/App.tsx", "content": "string_containing_react_code" }]
+}
+
+COMPILER DIAGNOSTICS (file paths are relative to the package root):
+{{DIAGNOSTICS}}
+
+PREVIOUS MOVE FILES:
+{{MOVE_FILES}}
+
+PREVIOUS FRONTEND FILES:
+{{FRONTEND_FILES}}`;
+
+const FORMAT_REPAIR_PROMPT = `
+Your previous reply could not be used because it does not match the required JSON structure.
+Fix every problem listed below and return the complete JSON object again. If the reply was cut
+off, return it in full and keep the code concise. All the requirements from the original
+instructions still apply.
+
+IMPORTANT: Your response MUST be a valid JSON string with this structure:
+{
+  "metadata": { "dappName": "...", "description": "...", "entryFunctions": [{ "module": "...", "name": "...", "description": "..." }] },
+  "moveFiles": [{ "path": "sources/module_name.move", "content": "string_containing_move_code" }],
+  "frontendFiles": [{ "path": "src/App.tsx", "content": "string_containing_react_code" }]
+}
+
+PROBLEMS (field paths refer to your previous reply):
+{{FIELD_ERRORS}}
+
+PREVIOUS REPLY:
+{{REPLY}}`;
+
+// Partial code forwarded while a reply streams in
+type PartialDapp = Pick<GeneratedDapp, 'moveFiles' | 'frontendFiles'>;
+
+// The version or starter template a follow-up instruction applies to
+interface RefinementBase {
+  // null when starting from a template
+  parentId: string | null;
+  templateId: string | null;
+  // Earlier instructions along the version chain, oldest first
+  conversation: string[];
+  moveFiles: MoveFiles;
+  frontendFiles: FrontendFiles;
+}
+
+interface GenerationRequest {
+  prompt: string;
+  projectId?: string;
+  base: RefinementBase | null;
+  signingMode: SigningMode;
+  network: SuiNetwork;
+  maxRepairRounds: number;
+  provider: LlmProvider;
+}
+
+interface BuildAttempt {
+  round: number;
+  success: boolean;
+  diagnostics: MoveDiagnostic[];
+}
+
+/**
+ * Renders files as `// path` headed sections for the repair prompt.
+ */
+function formatFiles(files: Record<string, string>): string {
+  return Object.entries(files)
+    .map(([filePath, content]) => `// ${filePath}\n${content}`)
+    .join('\n\n');
+}
+
+/**
+ * Pulls whatever Move and frontend files are complete enough to show out of a
+ * partially streamed reply.
+ */
+function extractPartialCode(text: string): PartialDapp | null {
+  const parsed = parsePartialJson(text);
+  if (!parsed || typeof parsed !== 'object') return null;
+  return readPartialDapp(parsed);
+}
+
+/**
+ * Runs the model and validates its reply against the response schema. With
+ * `onPartial` the reply is streamed and partial code forwarded as it arrives;
+ * the full reply is still validated once the stream ends. A reply that fails
+ * validation is sent back once with the problems found; if the second reply
+ * fails too, its `GeneratedDappError` is thrown.
+ */
+async function generateCode(
+  provider: LlmProvider,
+  promptText: string,
+  signal: AbortSignal,
+  onPartial?: (partial: PartialDapp) => void,
+  onReformat?: () => void
+): Promise<{ generated: GeneratedDapp; usage: TokenUsage | null }> {
+  const options = {
+    temperature: 0,
+    signal,
+    responseSchema: { name: 'sui_dapp', schema: GENERATED_DAPP_JSON_SCHEMA },
+  };
+
+  const complete = async (text: string) => {
+    let streamed = '';
+    return onPartial
+      ? provider.stream(text, delta => {
+          streamed += delta;
+          const partial = extractPartialCode(streamed);
+          if (partial) onPartial(partial);
+        }, options)
+      : provider.generate(text, options);
+  };
+
+  const result = await complete(promptText);
+  try {
+    return { generated: parseGeneratedDapp(result.text), usage: result.usage };
+  } catch (error) {
+    if (!(error instanceof GeneratedDappError) || signal.aborted) throw error;
+
+    onReformat?.();
+    const retry = await complete(
+      FORMAT_REPAIR_PROMPT
+        .replace('{{FIELD_ERRORS}}', () => error.fieldErrors.map(e => `- ${e.path || '(reply)'}: ${e.message}`).join('\n'))
+        .replace('{{REPLY}}', () => result.text)
+    );
+    return {
+      generated: parseGeneratedDapp(retry.text),
+      usage: addTokenUsage(result.usage, retry.usage),
+    };
+  }
+}
+
+/**
+ * Generates the DApp, compiles it and repairs it until it builds, then records
+ * the generation. Progress is reported through `emit` for streaming clients.
+ */
+async function runGeneration(
+  { prompt, projectId, base, signingMode, network, maxRepairRounds, provider }: GenerationRequest,
+  signal: AbortSignal,
+  emit?: (event: string, data: unknown) => void
+) {
+  const onPartial = emit && ((partial: PartialDapp) => emit('partial', partial));
+  let usage: TokenUsage | null = null;
+
+  const generate = async (promptText: string, round: number) => {
+    const onReformat = () => emit?.('status', { phase: 'reformatting', round });
+    const result = await generateCode(provider, promptText, signal, onPartial, onReformat);
+    usage = addTokenUsage(usage, result.usage);
+    return result.generated;
+  };
+
+  const task = base
+    ? REFINE_TASK
+      .replace('{{CONVERSATION}}', () => base.conversation.map((instruction, i) => `${i + 1}. ${instruction}`).join('\n'))
+      .replace('{{MOVE_FILES}}', () => formatFiles(base.moveFiles))
+      .replace('{{FRONTEND_FILES}}', () => formatFiles(base.frontendFiles))
+    : GENERATE_TASK;
+
+  emit?.('status', { phase: 'generating', round: 0 });
+  let generated = await generate(
+    SYSTEM_PROMPT
+      .replace('{{FRONTEND_RULES}}', () => FRONTEND_RULES[signingMode])
+      .replace('{{TASK}}', () => task)
+      .replace('{{USER_PROMPT}}', () => prompt),
+    0
+  );
+
+  // Compile the contract and feed any errors back to the model until it builds
+  const attempts: BuildAttempt[] = [];
+  for (let round = 0; ; round++) {
+    emit?.('status', { phase: 'compiling', round });
+    const build = await buildMovePackage(generated.moveFiles, network);
+    const attempt = { round, success: build.success, diagnostics: build.diagnostics };
+    attempts.push(attempt);
+    emit?.('attempt', attempt);
+
+    if (build.success || round >= maxRepairRounds) break;
+
+    emit?.('status', { phase: 'repairing', round: round + 1 });
+    generated = await generate(
+      REPAIR_PROMPT
+        .replace('{{DIAGNOSTICS}}', () => formatMoveDiagnostics(build.diagnostics))
+        .replace('{{MOVE_FILES}}', () => formatFiles(generated.moveFiles))
+        .replace('{{FRONTEND_FILES}}', () => formatFiles(generated.frontendFiles)),
+      round + 1
+    );
+  }
+
+  if (signal.aborted) {
+    throw new Error('Generation cancelled');
+  }
+
+  // A refinement is only a proposal until the user reviews it; the client
+  // records the files it applies through the project's generations route
+  if (base?.parentId && projectId) {
+    return {
+      ...generated,
+      projectId,
+      generationId: null,
+      signingMode,
+      compiled: attempts[attempts.length - 1].success,
+      attempts,
+      provider: provider.name,
+      model: provider.model,
+      usage,
+    };
+  }
+
+  // Record the generation, starting a project named after the DApp if needed
+  const project = projectId
+    ? { id: projectId }
+    : await createProject(generated.metadata.dappName.slice(0, 60));
+  const generation = await addGeneration(project.id, {
+    prompt,
+    parentId: null,
+    templateId: base?.templateId || null,
+    signingMode,
+    metadata: generated.metadata,
+    moveFiles: generated.moveFiles,
+    frontendFiles: generated.frontendFiles,
+    provider: provider.name,
+    model: provider.model,
+    usage,
+  });
+
+  return {
+    ...generated,
+    projectId: project.id,
+    generationId: generation.id,
+    signingMode,
+    compiled: attempts[attempts.length - 1].success,
+    attempts,
+    provider: provider.name,
+    model: provider.model,
+    // Summed over the first generation and every repair round
+    usage,
+  };
+}
+
+/**
+ * Error payload for a failed generation. Invalid model replies list each
+ * problem by field so the UI can show more than a generic failure.
+ */
+function generationError(error: unknown) {
+  if (error instanceof GeneratedDappError) {
+    return {
+      error: 'The model returned code in an unexpected format',
+      details: error.message,
+      fieldErrors: error.fieldErrors,
+    };
+  }
+  return {
+    error: 'Failed to process AI response',
+    details: error instanceof Error ? error.message : String(error)
+  };
+}
 
 export async function POST(request: Request) {
   try {
-    const { prompt } = await request.json();
+    const body = await request.json();
+    const {
+      prompt,
+      projectId,
+      parentGenerationId,
+      templateId,
+      signingMode = 'burner',
+      network = DEFAULT_NETWORK,
+      maxRepairRounds: requestedRepairRounds = MOVE_REPAIR_ROUNDS,
+      provider: providerName,
+      model,
+      stream = false,
+    } = body;
     
     if (!prompt) {
       return new Response(
@@ -94,63 +490,150 @@ export async function POST(request: Request) {
       );
     }
 
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-2.0-flash",
-      generationConfig: { temperature: 0 },
-    });
+    if (!SIGNING_MODES.includes(signingMode)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown signing mode: ${signingMode}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-    const result = await model.generateContent({
-      contents: [{
-        role: "user",
-        parts: [{ text: SYSTEM_PROMPT.replace('{{USER_PROMPT}}', prompt) }]
-      }],
-    });
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-    const response = await result.response;
-    let text = response.text();
-    
-    console.log('Raw AI response:', text); // Debug log
-    
-    let parsedResponse;
-    
-    // First try parsing directly
-    try {
-      parsedResponse = JSON.parse(text);
-    } catch (directError) {
-      console.log('Direct parse failed, trying markdown extraction...');
-      // If direct parse fails, try extracting from markdown code block
-      const jsonMatch = text.match(/```(?:json)?\n([\s\S]*?)\n```/);    
-     if (jsonMatch) {
-        try {
-          parsedResponse = JSON.parse(jsonMatch[1].trim());
-        } catch (extractError) {
-          console.error('Failed to parse extracted JSON:', extractError);
-          throw new Error('Failed to parse AI response as JSON');
-        }
-      } else {
-        throw new Error('No valid JSON found in AI response');
+    // Each round is an LLM call and a build, so the client can only lower the limit
+    const maxRepairRounds = /^\d+$/.test(String(requestedRepairRounds)) ? Number(requestedRepairRounds) : NaN;
+    if (!Number.isSafeInteger(maxRepairRounds)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid maxRepairRounds: ${requestedRepairRounds}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (providerName !== undefined && !isLlmProviderName(providerName)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown LLM provider: ${providerName}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Checked before any model or compiler work, which would be lost when recording it fails
+    const project = projectId ? await getProject(projectId) : null;
+    if (projectId && !project) {
+      return new Response(
+        JSON.stringify({ error: 'Project not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A follow-up instruction refines an existing version. The client sends the
+    // code it has open, which may include edits made since that version
+    let base: RefinementBase | null = null;
+    if (parentGenerationId) {
+      const parent = project?.generations.find(g => g.id === parentGenerationId);
+      if (!project || !parent) {
+        return new Response(
+          JSON.stringify({ error: 'Generation to refine not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      try {
+        base = {
+          parentId: parent.id,
+          templateId: parent.templateId || null,
+          conversation: generationChain(project.generations, parent.id).map(g => g.prompt),
+          moveFiles: body.moveFiles || body.moveCode ? resolveMoveFiles(body) : parent.moveFiles,
+          frontendFiles: body.frontendFiles || body.frontendCode ? resolveFrontendFiles(body) : resolveFrontendFiles(parent),
+        };
+      } catch (validationError) {
+        return new Response(
+          JSON.stringify({ error: (validationError as Error).message }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
       }
     }
-    
-    console.log('Parsed response:', parsedResponse); // Debug log
-    
-    // Validate the response structure
-    if (!parsedResponse.moveCode || !parsedResponse.frontendCode) {
-      throw new Error('Invalid response format from AI. Missing required fields.');
+
+    // A starter template stands in for the parent of a fresh generation, so the
+    // model customizes vetted code instead of writing it from scratch
+    if (templateId && !base) {
+      const template = getTemplate(templateId);
+      if (!template) {
+        return new Response(
+          JSON.stringify({ error: `Unknown template: ${templateId}` }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      base = {
+        parentId: null,
+        templateId: template.id,
+        conversation: [`Start from the ${template.name} template: ${template.description}`],
+        moveFiles: template.moveFiles,
+        frontendFiles: template.frontendFiles,
+      };
     }
-  
-    return new Response(
-      JSON.stringify(parsedResponse),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    );
+
+    const generationRequest: GenerationRequest = {
+      prompt,
+      projectId,
+      base,
+      signingMode,
+      network,
+      maxRepairRounds: Math.min(maxRepairRounds, MOVE_REPAIR_ROUNDS),
+      provider: getLlmProvider(providerName, model),
+    };
+
+    if (!stream) {
+      const result = await runGeneration(generationRequest, request.signal);
+      return new Response(
+        JSON.stringify(result),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Streaming: `partial`, `status` and `attempt` events while working, then one `result` or `error`
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+
+    const events = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const emit = (event: string, data: unknown) => {
+          if (!abortController.signal.aborted) {
+            controller.enqueue(encodeEvent(event, data));
+          }
+        };
+
+        try {
+          emit('result', await runGeneration(generationRequest, abortController.signal, emit));
+        } catch (error) {
+          console.error('Error processing AI response:', error);
+          emit('error', generationError(error));
+        } finally {
+          if (!abortController.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(events, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
   } catch (error) {
     console.error('Error processing AI response:', error);
     return new Response(
-      JSON.stringify({ 
-        error: 'Failed to process AI response',
-        details: error instanceof Error ? error.message : String(error)
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+      JSON.stringify(generationError(error)),
+      { status: error instanceof GeneratedDappError ? 422 : 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { FrontendFiles, resolveFrontendFiles, SIGNING_MODES } from '@/lib/previewTemplate';
+import { addGeneration, getProject } from '@/lib/projects';
+
+// Records a refinement once the user has applied it, with the files as applied
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const body = await request.json();
+    const { prompt, parentId, signingMode, metadata, provider, model, usage = null } = body;
+
+    if (!prompt || !provider || !model) {
+      return new Response(
+        JSON.stringify({ error: 'prompt, provider and model are required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!SIGNING_MODES.includes(signingMode)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown signing mode: ${signingMode}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let moveFiles: MoveFiles;
+    let frontendFiles: FrontendFiles;
+    try {
+      moveFiles = resolveMoveFiles(body);
+      frontendFiles = resolveFrontendFiles(body);
+    } catch (validationError) {
+      return new Response(
+        JSON.stringify({ error: (validationError as Error).message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const project = await getProject(projectId);
+    if (!project) {
+      return new Response(
+        JSON.stringify({ error: 'Project not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parent = project.generations.find(g => g.id === parentId);
+    if (!parent) {
+      return new Response(
+        JSON.stringify({ error: 'Generation to refine not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const generation = await addGeneration(projectId, {
+      prompt,
+      parentId: parent.id,
+      templateId: parent.templateId || null,
+      signingMode,
+      metadata,
+      moveFiles,
+      frontendFiles,
+      provider,
+      model,
+      usage,
+    });
+
+    return new Response(
+      JSON.stringify(generation),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error recording generation:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to record generation',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { createProject, listProjects } from '@/lib/projects';
+
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return new Response(
+      JSON.stringify({ projects }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list projects',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { name } = await request.json();
+
+    if (!name || typeof name !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Project name is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const project = await createProject(name.trim());
+    return new Response(
+      JSON.stringify(project),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to create project',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
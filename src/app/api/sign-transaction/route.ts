@@ -0,0 +1,109 @@
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { NETWORKS } from '@/lib/networks';
+import { getSigningSession, SigningSession } from '@/lib/signingSessions';
+
+// The preview app runs on a WebContainer origin, so this route has to allow cross-origin calls.
+// Requests are authorised by the session ID, not by cookies.
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+  });
+}
+
+/**
+ * Returns a reason the transaction may not be signed, or null if it is allowed.
+ * Only move calls into the session's own package are permitted, so a session ID
+ * can't be used to transfer the burner's coins or call other packages.
+ */
+function checkSigningPolicy(tx: Transaction, session: SigningSession): string | null {
+  const { commands, gasData } = tx.getData();
+  const packageId = normalizeSuiAddress(session.packageId);
+
+  if (commands.length === 0) {
+    return 'Transaction has no commands';
+  }
+
+  for (const command of commands) {
+    if (command.$kind !== 'MoveCall') {
+      return `${command.$kind} commands are not allowed; only move calls into ${session.packageId}`;
+    }
+
+    const { package: target, module, function: fn } = command.MoveCall;
+    if (normalizeSuiAddress(target) !== packageId) {
+      return `Move call ${target}::${module}::${fn} targets a package other than ${session.packageId}`;
+    }
+  }
+
+  if (gasData.owner && normalizeSuiAddress(gasData.owner) !== normalizeSuiAddress(session.address)) {
+    return 'Gas must be paid by the session address';
+  }
+
+  return null;
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(request: Request) {
+  try {
+    // Signer modules written before the move to @mysten/sui send `transactionBlock`
+    const { sessionId, transaction = null, transactionBlock = null } = await request.json();
+    const serialized = transaction ?? transactionBlock;
+
+    if (!sessionId || !serialized) {
+      return jsonResponse({ error: 'sessionId and transaction are required' }, 400);
+    }
+
+    const signer = await getSigningSession(sessionId);
+    if (!signer) {
+      return jsonResponse({ error: 'Unknown or expired signing session' }, 404);
+    }
+
+    // Both the current JSON format and the legacy TransactionBlock one parse here
+    let tx: Transaction;
+    try {
+      tx = Transaction.from(serialized);
+    } catch (parseError) {
+      return jsonResponse({
+        error: 'Invalid transaction',
+        details: parseError instanceof Error ? parseError.message : String(parseError),
+      }, 400);
+    }
+
+    const violation = checkSigningPolicy(tx, signer.session);
+    if (violation) {
+      return jsonResponse({ error: 'Transaction rejected by signing policy', details: violation }, 403);
+    }
+
+    tx.setSender(signer.session.address);
+
+    const client = new SuiClient({ url: NETWORKS[signer.session.network].rpcUrl });
+    const result = await client.signAndExecuteTransaction({
+      transaction: tx,
+      signer: signer.keypair,
+      options: {
+        showEffects: true,
+        showEvents: true,
+        showObjectChanges: true,
+      },
+    });
+
+    return jsonResponse(result, 200);
+  } catch (error) {
+    console.error('Signing proxy error:', error);
+    return jsonResponse({
+      error: 'Failed to execute transaction',
+      details: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+}
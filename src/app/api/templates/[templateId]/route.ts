@@ -0,0 +1,87 @@
+import { DEFAULT_NETWORK, isSuiNetwork } from '@/lib/networks';
+import { addGeneration, createProject, getProject } from '@/lib/projects';
+import { getTemplate } from '@/lib/templates';
+import { getTemplateVerification } from '@/lib/templates/verify';
+
+/**
+ * Loads a template as-is into a project, recorded as a generation so it can
+ * be refined, deployed and restored like generated code. Answers in the same
+ * shape as /api/generate-code.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const { projectId, network = DEFAULT_NETWORK } = await request.json();
+
+    const template = getTemplate(templateId);
+    if (!template) {
+      return new Response(
+        JSON.stringify({ error: `Unknown template: ${templateId}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (projectId && !(await getProject(projectId))) {
+      return new Response(
+        JSON.stringify({ error: 'Project not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const project = projectId ? { id: projectId } : await createProject(template.name);
+    const generation = await addGeneration(project.id, {
+      prompt: `Start from the ${template.name} template`,
+      parentId: null,
+      templateId: template.id,
+      // Template frontends sign through the burner proxy
+      signingMode: 'burner',
+      metadata: template.metadata,
+      moveFiles: template.moveFiles,
+      frontendFiles: template.frontendFiles,
+      provider: 'template',
+      model: template.id,
+      usage: null,
+    });
+
+    // Report the cached build, if any, the way generation reports its compile rounds
+    const verification = getTemplateVerification(network, template.id);
+
+    return new Response(
+      JSON.stringify({
+        metadata: template.metadata,
+        moveFiles: template.moveFiles,
+        frontendFiles: template.frontendFiles,
+        projectId: project.id,
+        generationId: generation.id,
+        signingMode: generation.signingMode,
+        compiled: verification ? verification.success : null,
+        attempts: verification
+          ? [{ round: 0, success: verification.success, diagnostics: verification.errors }]
+          : [],
+        provider: generation.provider,
+        model: generation.model,
+        usage: null,
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error instantiating template:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to start from template',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
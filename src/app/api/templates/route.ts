@@ -0,0 +1,37 @@
+import { DEFAULT_NETWORK, isSuiNetwork } from '@/lib/networks';
+import { summarizeTemplate, TEMPLATES } from '@/lib/templates';
+import { getTemplateVerification } from '@/lib/templates/verify';
+
+// Lists the starter templates with their last build result for `?network=`
+export async function GET(request: Request) {
+  try {
+    const network = new URL(request.url).searchParams.get('network') || DEFAULT_NETWORK;
+
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const templates = TEMPLATES.map(template => ({
+      ...summarizeTemplate(template),
+      // null until the template has been built against this network since the server started
+      verification: getTemplateVerification(network, template.id),
+    }));
+
+    return new Response(
+      JSON.stringify({ network, templates }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error listing templates:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to list templates',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { DEFAULT_NETWORK, isSuiNetwork } from '@/lib/networks';
+import { getTemplate, TEMPLATES } from '@/lib/templates';
+import { verifyTemplate } from '@/lib/templates/verify';
+
+// Builds every template, or just `templateId`, against the network's pinned framework
+export async function POST(request: Request) {
+  try {
+    const { network = DEFAULT_NETWORK, templateId } = await request.json();
+
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const template = templateId ? getTemplate(templateId) : undefined;
+    if (templateId && !template) {
+      return new Response(
+        JSON.stringify({ error: `Unknown template: ${templateId}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // One at a time; concurrent builds would only queue behind the sui command limit
+    const results: Record<string, Awaited<ReturnType<typeof verifyTemplate>>> = {};
+    for (const t of template ? [template] : TEMPLATES) {
+      results[t.id] = await verifyTemplate(t, network);
+    }
+
+    return new Response(
+      JSON.stringify({
+        network,
+        success: Object.values(results).every(result => result.success),
+        results,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Template verification error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to verify templates',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { runMoveTests } from '@/lib/moveTest';
+import { DEFAULT_NETWORK, isSuiNetwork } from '@/lib/networks';
+
+// A test name or a `module::test` prefix; it ends up on the sui command line
+const TEST_FILTER_PATTERN = /^[\w:]+$/;
+
+// Runs the package's Move unit tests without funding a wallet or publishing anything
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { network = DEFAULT_NETWORK, filter } = body;
+
+    if (!isSuiNetwork(network)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown network: ${network}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (filter !== undefined && (typeof filter !== 'string' || !TEST_FILTER_PATTERN.test(filter))) {
+      return new Response(
+        JSON.stringify({ error: 'Test filter may only contain letters, digits, underscores and ::' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let moveFiles: MoveFiles;
+    try {
+      moveFiles = resolveMoveFiles(body);
+    } catch (validationError) {
+      return new Response(
+        JSON.stringify({ error: (validationError as Error).message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await runMoveTests(moveFiles, network, filter);
+
+    return new Response(
+      JSON.stringify({
+        success: result.success,
+        tests: result.tests,
+        errors: result.diagnostics.filter(d => d.severity === 'error'),
+        warnings: result.diagnostics.filter(d => d.severity === 'warning'),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Test run error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to run Move tests',
+        details: error instanceof Error ? error.message : String(error)
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,265 @@
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { parseCreatedObjects, summarizeObjects } from '@/lib/deployedObjects';
+import { fundBurnerWallet } from '@/lib/faucet';
+import { dryRunWithEstimate } from '@/lib/gasEstimate';
+import { getDeployerKeypair } from '@/lib/keyVault';
+import { buildMovePackage } from '@/lib/moveBuild';
+import { blockingFindings, lintMovePackage } from '@/lib/moveLint';
+import { MoveFiles, resolveMoveFiles } from '@/lib/moveWorkspace';
+import { NETWORKS } from '@/lib/networks';
+import { FrontendFiles, resolveFrontendFiles, SIGNING_MODES } from '@/lib/previewTemplate';
+import { addDeployment, getProject } from '@/lib/projects';
+import { createSigningSession, getSigningSession } from '@/lib/signingSessions';
+import { checkUpgradeCompatibility, getUpgradeCap } from '@/lib/upgradeCompatibility';
+
+// Environment variables
+const MASTER_WALLET_MNEMONIC = process.env.MASTER_WALLET_MNEMONIC;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Returns the keypair that owns the deployment's UpgradeCap: the master wallet
+ * if it published the package, otherwise the stored burner key.
+ */
+async function getDeployer(
+  deployerAddress: string
+): Promise<{ keypair: Ed25519Keypair; isMasterWallet: boolean } | null> {
+  if (MASTER_WALLET_MNEMONIC) {
+    const masterKeypair = Ed25519Keypair.deriveKeypair(MASTER_WALLET_MNEMONIC);
+    if (masterKeypair.getPublicKey().toSuiAddress() === deployerAddress) {
+      return { keypair: masterKeypair, isMasterWallet: true };
+    }
+  }
+
+  const keypair = await getDeployerKeypair(deployerAddress);
+  return keypair ? { keypair, isMasterWallet: false } : null;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { projectId, deploymentId, generationId, signingMode = 'burner', blockOnLint = false } = body;
+
+    if (!projectId || !deploymentId) {
+      return jsonResponse({ error: 'projectId and deploymentId are required' }, 400);
+    }
+    if (!SIGNING_MODES.includes(signingMode)) {
+      return jsonResponse({ error: `Unknown signing mode: ${signingMode}` }, 400);
+    }
+
+    let moveFiles: MoveFiles;
+    let frontendFiles: FrontendFiles;
+    try {
+      moveFiles = resolveMoveFiles(body);
+      frontendFiles = resolveFrontendFiles(body);
+    } catch (validationError) {
+      return jsonResponse({ error: (validationError as Error).message }, 400);
+    }
+
+    // Refuse code with high-severity lint findings if the client asked to
+    if (blockOnLint) {
+      const findings = blockingFindings(lintMovePackage(moveFiles));
+      if (findings.length > 0) {
+        return jsonResponse({ error: 'Upgrade blocked by high-severity lint findings', lintFindings: findings }, 422);
+      }
+    }
+
+    // 1. Find the deployment being upgraded and its UpgradeCap
+    const project = await getProject(projectId);
+    const previous = project?.deployments.find(d => d.id === deploymentId);
+    if (!project || !previous) {
+      return jsonResponse({ error: 'Deployment not found' }, 404);
+    }
+    // Checked now, since nothing can be refused once the upgrade has executed
+    if (generationId && !project.generations.some(g => g.id === generationId)) {
+      return jsonResponse({ error: 'Generation not found' }, 404);
+    }
+
+    if (!previous.upgradeCapId) {
+      return jsonResponse({
+        error: 'This deployment has no recorded UpgradeCap',
+        details: 'Deploy the package again to be able to upgrade it',
+      }, 400);
+    }
+
+    const deployer = await getDeployer(previous.deployerAddress);
+    if (!deployer) {
+      return jsonResponse({
+        error: 'The key that owns the UpgradeCap is no longer available',
+        details: `UpgradeCap ${previous.upgradeCapId} is owned by ${previous.deployerAddress}`,
+      }, 409);
+    }
+
+    // 2. Build the edited package for the network it lives on; the digest
+    // covers the modules and their dependencies
+    const { network } = previous;
+    const build = await buildMovePackage(moveFiles, network);
+    if (!build.success) {
+      return jsonResponse({
+        error: 'Move compilation failed',
+        diagnostics: build.diagnostics,
+      }, 422);
+    }
+
+    const { modules, dependencies, digest } = build;
+    if (digest.length === 0) {
+      throw new Error('The sui CLI did not report a package digest; a newer CLI is needed for upgrades');
+    }
+
+    // 3. Read the cap; after earlier upgrades it points at the latest package version
+    const client = new SuiClient({ url: NETWORKS[network].rpcUrl });
+    const upgradeCap = await getUpgradeCap(client, previous.upgradeCapId);
+
+    // 4. Check the edited sources against the published interface
+    const issues = await checkUpgradeCompatibility(client, upgradeCap.packageId, moveFiles);
+    if (issues.length > 0) {
+      return jsonResponse({
+        error: 'Upgrade is not compatible with the published package',
+        issues,
+      }, 409);
+    }
+
+    // 5. Authorize, upgrade and commit in one transaction
+    const tx = new Transaction();
+    tx.setSender(previous.deployerAddress);
+
+    const cap = tx.object(previous.upgradeCapId);
+    const ticket = tx.moveCall({
+      target: '0x2::package::authorize_upgrade',
+      arguments: [cap, tx.pure.u8(upgradeCap.policy), tx.pure.vector('u8', digest)],
+    });
+    const receipt = tx.upgrade({
+      modules,
+      dependencies,
+      package: upgradeCap.packageId,
+      ticket,
+    });
+    tx.moveCall({
+      target: '0x2::package::commit_upgrade',
+      arguments: [cap, receipt],
+    });
+
+    // 6. Dry run first: the chain enforces the cap's policy, including
+    // anything the source-level check can't see. The gas budget comes from it.
+    const dryRun = await dryRunWithEstimate(client, tx, previous.deployerAddress);
+    if (!dryRun.success) {
+      return jsonResponse({
+        error: 'Upgrade rejected by the network',
+        details: dryRun.error,
+        estimate: dryRun.estimate,
+      }, 409);
+    }
+    tx.setGasBudget(BigInt(dryRun.estimate.gasBudget));
+
+    const upgradeTxn = await client.signAndExecuteTransaction({
+      transaction: tx,
+      signer: deployer.keypair,
+      options: {
+        showEffects: true,
+        showObjectChanges: true,
+      },
+    });
+
+    // 7. Extract the new package ID
+    let packageId: string | null = null;
+    for (const change of upgradeTxn.objectChanges || []) {
+      if (change.type === 'published') {
+        packageId = change.packageId;
+      }
+    }
+
+    if (!packageId) {
+      throw new Error('Failed to extract package ID from transaction');
+    }
+
+    // Problems after the upgrade; the new version is live, so they're reported next to it
+    const warnings: string[] = [];
+    const version = upgradeCap.version + 1;
+
+    // 8. New signing session scoped to the new package, reusing the previous
+    // preview signer when its session is still alive so it keeps its gas coins
+    let signingSession = null;
+    try {
+      let sessionKeypair = (await getSigningSession(previous.signingSessionId))?.keypair;
+      if (!sessionKeypair && !deployer.isMasterWallet) {
+        sessionKeypair = deployer.keypair;
+      } else if (!sessionKeypair && signingMode === 'burner' && NETWORKS[network].faucetUrl) {
+        // The master wallet is never exposed, so it gets a fresh funded burner; as
+        // on deploy, only where a faucet pays for it rather than the master wallet
+        sessionKeypair = Ed25519Keypair.generate();
+        await fundBurnerWallet(sessionKeypair.getPublicKey().toSuiAddress(), network);
+      } else if (!sessionKeypair && signingMode === 'burner') {
+        warnings.push(`The preview has no signer: ${NETWORKS[network].label} has no faucet to fund one`);
+      }
+      if (sessionKeypair) {
+        signingSession = await createSigningSession(sessionKeypair, packageId, network);
+      }
+    } catch (sessionError) {
+      console.error('Failed to create the preview signing session:', sessionError);
+      warnings.push(`The preview has no signer: ${errorMessage(sessionError)}`);
+    }
+
+    // 9. Record the upgrade, linked to the deployment it replaces
+    // Objects created by the original publish live on across upgrades
+    const createdObjects = [...previous.createdObjects, ...parseCreatedObjects(upgradeTxn.objectChanges)];
+
+    let upgradeDeploymentId = null;
+    try {
+      const deployment = await addDeployment(projectId, {
+        generationId: generationId || previous.generationId,
+        network,
+        packageId,
+        originalPackageId: previous.originalPackageId,
+        version,
+        upgradedFrom: previous.id,
+        upgradeCapId: previous.upgradeCapId,
+        deployerAddress: previous.deployerAddress,
+        objectId: previous.objectId,
+        createdObjects,
+        signingSessionId: signingSession?.id || '',
+        signingAddress: signingSession?.address || '',
+        moveFiles,
+        frontendFiles,
+      });
+      upgradeDeploymentId = deployment.id;
+    } catch (recordError) {
+      console.error('Failed to record the upgrade:', recordError);
+      warnings.push(`The upgrade is missing from the project history: ${errorMessage(recordError)}`);
+    }
+
+    // 10. Return the results
+    return jsonResponse({
+      packageId,
+      network,
+      originalPackageId: previous.originalPackageId,
+      previousPackageId: upgradeCap.packageId,
+      version,
+      upgradeCapId: previous.upgradeCapId,
+      objectId: previous.objectId,
+      createdObjects,
+      objects: summarizeObjects(createdObjects),
+      deploymentId: upgradeDeploymentId,
+      signingSessionId: signingSession?.id || null,
+      signingAddress: signingSession?.address || null,
+      warnings,
+    }, 200);
+
+  } catch (error) {
+    console.error('Upgrade error:', error);
+    return jsonResponse({
+      error: 'Failed to upgrade contract',
+      details: errorMessage(error)
+    }, 500);
+  }
+}
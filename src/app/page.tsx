@@ -1,17 +1,45 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { atomDark } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { BeatLoader } from 'react-spinners';
 import dynamic from 'next/dynamic';
+import CodeEditor from '@/components/CodeEditor';
+import ContractConsole from '@/components/ContractConsole';
+import DeployedObjects from '@/components/DeployedObjects';
+import DiagnosticsList from '@/components/DiagnosticsList';
+import FileDiffReview from '@/components/FileDiffReview';
+import FileTree from '@/components/FileTree';
+import GasEstimateConfirm, { DeployEstimate } from '@/components/GasEstimateConfirm';
+import LintFindings from '@/components/LintFindings';
+import MoveTestResults, { MoveTestRun } from '@/components/MoveTestResults';
+import PackageInspector from '@/components/PackageInspector';
+import ProjectHistory from '@/components/ProjectHistory';
+import RefinementChat from '@/components/RefinementChat';
+import { useEditableFiles } from '@/hooks/useEditableFiles';
+import type { CreatedObject } from '@/lib/deployedObjects';
+import type { DappMetadata, FieldError } from '@/lib/generationSchema';
+import type { LlmProviderName, TokenUsage } from '@/lib/llm';
+import type { MoveDiagnostic } from '@/lib/moveBuild';
+import { lintMovePackage, MoveLintFinding } from '@/lib/moveLint';
+import { explorerUrl, NETWORKS, SUI_NETWORKS, SuiNetwork } from '@/lib/networks';
+import { FRONTEND_ENTRY, FrontendFiles, resolveFrontendFiles, SigningMode } from '@/lib/previewTemplate';
+import type { Deployment, Generation, Project } from '@/lib/projects';
+import { readEventStream } from '@/lib/serverSentEvents';
+import type { TemplateSummary } from '@/lib/templates';
+import type { TemplateVerification } from '@/lib/templates/verify';
+import { applyChanges, changedFiles, FileChange } from '@/lib/versionHistory';
 
 // Dynamically import WebContainerPreview with no SSR
 const WebContainerPreview = dynamic<{
-  frontendCode: string;
+  frontendFiles: FrontendFiles;
   packageId: string;
+  originalPackageId: string;
   objectId: string;
-  privateKey: string;
+  objects: CreatedObject[];
+  network: SuiNetwork;
+  signingSessionId: string;
+  signingAddress: string;
+  signingMode: SigningMode;
 }>(
   () => import('@/components/WebContainerPreview').then(mod => mod.default),
   { 
@@ -27,57 +55,794 @@ const WebContainerPreview = dynamic<{
   }
 );
 
+// The editor shows the Move package and the React app as one project tree
+const MOVE_PREFIX = 'move/';
+const FRONTEND_PREFIX = 'frontend/';
+
+// Reopened on the next visit so a refresh doesn't lose the work
+const LAST_PROJECT_KEY = 'sui-studio:lastProjectId';
+
+// Files under `prefix`, keyed by their path below it
+const filesUnder = (files: Record<string, string>, prefix: string) => Object.fromEntries(
+  Object.entries(files)
+    .filter(([p]) => p.startsWith(prefix))
+    .map(([p, content]) => [p.slice(prefix.length), content])
+);
+
+const withPrefix = (files: Record<string, string>, prefix: string) => Object.fromEntries(
+  Object.entries(files).map(([p, content]) => [prefix + p, content])
+);
+
+interface GenerationResult {
+  metadata: DappMetadata;
+  moveFiles: Record<string, string>;
+  frontendFiles: FrontendFiles;
+  attempts: { round: number; success: boolean; diagnostics: MoveDiagnostic[] }[];
+  signingMode: SigningMode;
+  projectId: string;
+  // Null for a refinement, which is recorded once it is applied
+  generationId: string | null;
+  provider: string;
+  model: string;
+  usage: TokenUsage | null;
+}
+
+interface TemplateListing extends TemplateSummary {
+  verification: TemplateVerification | null;
+}
+
+interface GenerationFailure {
+  error: string;
+  details?: string;
+  fieldErrors?: FieldError[];
+}
+
+const emptyDeployment = {
+  deploymentId: null,
+  packageId: '',
+  originalPackageId: '',
+  version: 0,
+  upgradeCapId: null,
+  objectId: '',
+  createdObjects: [],
+  network: 'testnet' as SuiNetwork,
+  signingSessionId: '',
+  signingAddress: '',
+};
+
 export default function Home() {
   const [prompt, setPrompt] = useState('');
+  const [signingMode, setSigningMode] = useState<SigningMode>('burner');
+  const [network, setNetwork] = useState<SuiNetwork>('testnet');
+  // Starter templates and the one picked as the base; empty means start from scratch
+  const [templates, setTemplates] = useState<TemplateListing[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [isVerifyingTemplates, setIsVerifyingTemplates] = useState(false);
+  const [templatesRefreshKey, setTemplatesRefreshKey] = useState(0);
+  // Empty means the server's configured default
+  const [llmProvider, setLlmProvider] = useState<LlmProviderName | ''>('');
+  // Which LLM produced the open code, what it says it built and its token usage
+  const [generationInfo, setGenerationInfo] = useState<{
+    provider: string;
+    model: string;
+    usage: TokenUsage | null;
+    metadata?: DappMetadata;
+  } | null>(null);
+  const [generateError, setGenerateError] = useState<GenerationFailure | null>(null);
+  // A refinement waiting for the user to accept or reject its changes
+  const [pendingRefinement, setPendingRefinement] = useState<{
+    instruction: string;
+    parentId: string;
+    result: GenerationResult;
+    changes: FileChange[];
+    accepted: Set<string>;
+  } | null>(null);
+  // Mode the current code was generated for; the picker may have changed since
+  const [generatedSigningMode, setGeneratedSigningMode] = useState<SigningMode>('burner');
   const [isGenerating, setIsGenerating] = useState(false);
+  // What the streaming generation is doing right now, e.g. "Compiling..."
+  const [generationStatus, setGenerationStatus] = useState('');
+  const generateAbortRef = useRef<AbortController | null>(null);
   const [isDeploying, setIsDeploying] = useState(false);
-  const [activeTab, setActiveTab] = useState('move');
-  const [generatedCode, setGeneratedCode] = useState<{
-    moveCode: string;
-    frontendCode: string;
-  }>({ moveCode: '', frontendCode: '' });
+  const [isEstimating, setIsEstimating] = useState(false);
+  // The dry-run cost of publishing the current code, waiting for confirmation
+  const [deployEstimate, setDeployEstimate] = useState<DeployEstimate | null>(null);
+  const [deployError, setDeployError] = useState<{ error: string; details?: string } | null>(null);
+  // Problems after the last deploy or upgrade went on chain, e.g. it couldn't be recorded
+  const [deployWarnings, setDeployWarnings] = useState<string[]>([]);
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [activeFile, setActiveFile] = useState('');
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [generationId, setGenerationId] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const editor = useEditableFiles();
   const [deployment, setDeployment] = useState<{
+    deploymentId: string | null;
     packageId: string;
+    originalPackageId: string;
+    version: number;
+    upgradeCapId: string | null;
     objectId: string;
-    burnerPrivateKey: string;
-  }>({ packageId: '', objectId: '', burnerPrivateKey: '' });
+    createdObjects: CreatedObject[];
+    network: SuiNetwork;
+    signingSessionId: string;
+    signingAddress: string;
+  }>(emptyDeployment);
+  const [buildAttempts, setBuildAttempts] = useState<{
+    round: number;
+    success: boolean;
+    diagnostics: MoveDiagnostic[];
+  }[]>([]);
+  const [deployDiagnostics, setDeployDiagnostics] = useState<MoveDiagnostic[]>([]);
+  // Whether deploys and upgrades refuse code with high-severity lint findings
+  const [blockOnLint, setBlockOnLint] = useState(false);
+  // The findings that stopped the last deploy or upgrade
+  const [blockedFindings, setBlockedFindings] = useState<MoveLintFinding[]>([]);
+  const [upgradeError, setUpgradeError] = useState<{
+    error: string;
+    details?: string;
+    issues?: { module: string; message: string }[];
+  } | null>(null);
+  const [checkResult, setCheckResult] = useState<{
+    success: boolean;
+    modules: string[];
+    dependencies: string[];
+    errors: MoveDiagnostic[];
+    warnings: MoveDiagnostic[];
+  } | null>(null);
+  // Set when the compile request itself fails, as opposed to the code not compiling
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<MoveTestRun | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Whether the editor panel shows the open file or the Move test results
+  const [editorView, setEditorView] = useState<'code' | 'tests'>('code');
+
+  const projectPaths = Object.keys(editor.files).sort();
+  const movePaths = projectPaths.filter(p => p.startsWith(MOVE_PREFIX));
+  const hasCode = movePaths.length > 0;
+  const isMoveFileActive = activeFile.startsWith(MOVE_PREFIX);
+  const firstMoveFile = movePaths.find(p => p.startsWith(`${MOVE_PREFIX}sources/`)) || movePaths[0];
+  // Deploy and Check always use the current editor contents, saved or not
+  const moveFiles = filesUnder(editor.files, MOVE_PREFIX);
+  const frontendFiles = filesUnder(editor.files, FRONTEND_PREFIX);
+  // Re-run on every edit; cheap enough since it only reads the source text
+  const lintFindings = useMemo(() => lintMovePackage(filesUnder(editor.files, MOVE_PREFIX)), [editor.files]);
+
+  // An estimate only holds for the code and network it was made for
+  useEffect(() => {
+    setDeployEstimate(null);
+  }, [editor.files, network]);
+  const activeFileFindings = lintFindings.filter(f => MOVE_PREFIX + f.file === activeFile);
+  // Memoized so the preview only rewrites files after a save
+  const savedFrontendFiles = useMemo(
+    () => filesUnder(editor.savedFiles, FRONTEND_PREFIX),
+    [editor.savedFiles]
+  );
+
+  const loadCode = (moveFiles: Record<string, string>, frontendFiles: FrontendFiles) => {
+    editor.load({
+      ...withPrefix(moveFiles, MOVE_PREFIX),
+      ...withPrefix(frontendFiles, FRONTEND_PREFIX),
+    });
+    setActiveFile(MOVE_PREFIX + (Object.keys(moveFiles).sort().find(p => p.startsWith('sources/')) || ''));
+    setBuildAttempts([]);
+    setDeployDiagnostics([]);
+    setBlockedFindings([]);
+    setDeployError(null);
+    setDeployWarnings([]);
+    setUpgradeError(null);
+    setCheckResult(null);
+    setCheckError(null);
+    setTestResult(null);
+    setPendingRefinement(null);
+  };
+
+  const openProject = (project: Project) => {
+    setProjectId(project.id);
+    localStorage.setItem(LAST_PROJECT_KEY, project.id);
+  };
+
+  const handleOpenGeneration = (project: Project, generation: Generation) => {
+    openProject(project);
+    loadCode(generation.moveFiles, resolveFrontendFiles(generation));
+    setGenerationId(generation.id);
+    setGeneratedSigningMode(generation.signingMode);
+    setGenerationInfo(generation.provider ? generation : null);
+    setPrompt(generation.prompt);
+    setDeployment(emptyDeployment);
+  };
+
+  const handleOpenDeployment = (project: Project, deployed: Deployment) => {
+    openProject(project);
+    loadCode(deployed.moveFiles, resolveFrontendFiles(deployed));
+    const generation = project.generations.find(g => g.id === deployed.generationId);
+    setGenerationId(deployed.generationId);
+    setGeneratedSigningMode(generation?.signingMode || 'burner');
+    setGenerationInfo(generation?.provider ? generation : null);
+    if (generation) setPrompt(generation.prompt);
+    setDeployment({
+      deploymentId: deployed.id,
+      packageId: deployed.packageId,
+      originalPackageId: deployed.originalPackageId || deployed.packageId,
+      version: deployed.version || 1,
+      upgradeCapId: deployed.upgradeCapId || null,
+      objectId: deployed.objectId || '',
+      createdObjects: deployed.createdObjects || [],
+      network: deployed.network,
+      signingSessionId: deployed.signingSessionId,
+      signingAddress: deployed.signingAddress,
+    });
+  };
+
+  const handleNewProject = () => {
+    setProjectId(null);
+    setGenerationId(null);
+    localStorage.removeItem(LAST_PROJECT_KEY);
+    editor.load({});
+    setDeployment(emptyDeployment);
+    setBuildAttempts([]);
+    setDeployDiagnostics([]);
+    setBlockedFindings([]);
+    setDeployError(null);
+    setDeployWarnings([]);
+    setCheckResult(null);
+    setCheckError(null);
+    setTestResult(null);
+    setGenerationInfo(null);
+    setGenerateError(null);
+    setPendingRefinement(null);
+    setPrompt('');
+  };
+
+  // Opens a project where the user left off: its latest deployment, else its latest generation
+  const resumeProject = (project: Project) => {
+    const lastDeployment = project.deployments[project.deployments.length - 1];
+    const lastGeneration = project.generations[project.generations.length - 1];
+    if (lastDeployment) {
+      handleOpenDeployment(project, lastDeployment);
+    } else if (lastGeneration) {
+      handleOpenGeneration(project, lastGeneration);
+    } else {
+      openProject(project);
+    }
+  };
+  const resumeProjectRef = useRef(resumeProject);
+  useEffect(() => {
+    resumeProjectRef.current = resumeProject;
+  });
+
+  // Restore the last project after a reload
+  useEffect(() => {
+    const lastProjectId = localStorage.getItem(LAST_PROJECT_KEY);
+    if (!lastProjectId) return;
+
+    fetch(`/api/projects/${lastProjectId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((project: Project | null) => {
+        if (!project) {
+          localStorage.removeItem(LAST_PROJECT_KEY);
+          return;
+        }
+        resumeProjectRef.current(project);
+      })
+      .catch(error => console.error('Error restoring project:', error));
+  }, []);
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+
+  // Template list with each one's build status for the chosen network
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/templates?network=${network}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data) setTemplates(data.templates);
+      })
+      .catch(error => console.error('Error loading templates:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [network, templatesRefreshKey]);
+
+  // Shows code as it streams in without touching history or diagnostics
+  const showPartialCode = (partial: { moveFiles: Record<string, string>; frontendFiles: FrontendFiles }) => {
+    const files = {
+      ...withPrefix(partial.moveFiles, MOVE_PREFIX),
+      ...withPrefix(partial.frontendFiles, FRONTEND_PREFIX),
+    };
+
+    editor.load(files);
+    // Follow the file being written unless the user picked one that exists
+    setActiveFile(current => (current in files ? current : Object.keys(files).pop() || ''));
+  };
+
+  // Sends a generate-code request and follows its event stream, reporting progress as it goes
+  const streamGeneration = async (
+    body: Record<string, unknown>,
+    signal: AbortSignal,
+    onPartial?: (partial: { moveFiles: Record<string, string>; frontendFiles: FrontendFiles }) => void
+  ): Promise<{ result?: GenerationResult; failure?: GenerationFailure }> => {
+    const response = await fetch('/api/generate-code', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, provider: llmProvider || undefined, stream: true }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { failure: { error: errorData.error || 'Failed to generate code', details: errorData.details } };
+    }
+
+    let result: GenerationResult | undefined;
+    let failure: GenerationFailure | undefined;
+    await readEventStream(response, ({ event, data }) => {
+      switch (event) {
+        case 'status': {
+          const { phase, round } = data as { phase: string; round: number };
+          setGenerationStatus(
+            phase === 'compiling' ? 'Compiling...'
+              : phase === 'repairing' ? `Repairing (round ${round})...`
+              : phase === 'reformatting' ? 'Fixing reply format...'
+              : 'Generating...'
+          );
+          break;
+        }
+        case 'partial':
+          onPartial?.(data as { moveFiles: Record<string, string>; frontendFiles: FrontendFiles });
+          break;
+        case 'attempt':
+          setBuildAttempts(prev => [...prev, data as typeof prev[number]]);
+          break;
+        case 'result':
+          result = data as GenerationResult;
+          break;
+        case 'error':
+          failure = data as GenerationFailure;
+          break;
+      }
+    });
+
+    return result ? { result } : { failure: failure || { error: 'Generation ended without a result' } };
+  };
+
+  // Records the picked template unchanged as a new version
+  const loadTemplate = async (
+    id: string,
+    signal: AbortSignal
+  ): Promise<{ result?: GenerationResult; failure?: GenerationFailure }> => {
+    const response = await fetch(`/api/templates/${id}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ projectId, network }),
+      signal,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { failure: { error: data.error || 'Failed to load template', details: data.details } };
+    }
+    return { result: data };
+  };
 
   const handleGenerate = async () => {
-    if (!prompt.trim()) return;
+    // With a template picked, an empty prompt loads the template as-is
+    const useTemplateAsIs = !prompt.trim() && !!templateId;
+    if (!prompt.trim() && !useTemplateAsIs) return;
     
+    const abortController = new AbortController();
+    generateAbortRef.current = abortController;
     setIsGenerating(true);
-    setGeneratedCode({ moveCode: '', frontendCode: '' });
+    setGenerationStatus(useTemplateAsIs ? 'Loading template...' : 'Generating...');
+    editor.load({});
+    setActiveFile('');
+    setGenerationId(null);
+    setGenerationInfo(null);
+    setGenerateError(null);
+    setPendingRefinement(null);
+    setBuildAttempts([]);
+    setDeployDiagnostics([]);
+    setBlockedFindings([]);
+    setDeployError(null);
+    setDeployWarnings([]);
+    setCheckResult(null);
+    setCheckError(null);
+    setTestResult(null);
+    setDeployment(emptyDeployment);
     
     try {
-      const response = await fetch('/api/generate-code', {
+      const { result, failure } = useTemplateAsIs
+        ? await loadTemplate(templateId, abortController.signal)
+        : await streamGeneration(
+          { prompt, signingMode, projectId, network, templateId: templateId || undefined },
+          abortController.signal,
+          showPartialCode
+        );
+
+      if (!result) {
+        // Keep the partial code visible so the listed problems can be checked against it
+        setGenerateError(failure || null);
+        return;
+      }
+
+      loadCode(result.moveFiles, result.frontendFiles);
+      setBuildAttempts(result.attempts || []);
+      setGeneratedSigningMode(result.signingMode || 'burner');
+      setProjectId(result.projectId);
+      setGenerationId(result.generationId);
+      setGenerationInfo(result);
+      localStorage.setItem(LAST_PROJECT_KEY, result.projectId);
+      setHistoryRefreshKey(k => k + 1);
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // Half-written code shouldn't be mistaken for a result
+        editor.load({});
+        setBuildAttempts([]);
+      } else {
+        console.error('Error generating code:', error);
+        setGenerateError({
+          error: 'Failed to generate code',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      generateAbortRef.current = null;
+      setIsGenerating(false);
+      setGenerationStatus('');
+    }
+  };
+
+  // Asks for a change to the open code; the result is held for review instead of loaded
+  const handleRefine = async (instruction: string) => {
+    if (!projectId || !generationId) return;
+
+    const abortController = new AbortController();
+    generateAbortRef.current = abortController;
+    setIsGenerating(true);
+    setGenerationStatus('Generating...');
+    setGenerateError(null);
+    setPendingRefinement(null);
+    setBuildAttempts([]);
+
+    try {
+      const { result, failure } = await streamGeneration(
+        {
+          prompt: instruction,
+          projectId,
+          parentGenerationId: generationId,
+          moveFiles,
+          frontendFiles,
+          signingMode: generatedSigningMode,
+          // A deployed DApp has to keep building for the network it lives on
+          network: deployment.packageId ? deployment.network : network,
+        },
+        abortController.signal
+      );
+
+      if (!result) {
+        setGenerateError(failure || null);
+        return;
+      }
+
+      const proposed = {
+        ...withPrefix(result.moveFiles, MOVE_PREFIX),
+        ...withPrefix(result.frontendFiles, FRONTEND_PREFIX),
+      };
+      const changes = changedFiles(editor.files, proposed);
+      setPendingRefinement({
+        instruction,
+        parentId: generationId,
+        result,
+        changes,
+        accepted: new Set(changes.map(c => c.path)),
+      });
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Error refining code:', error);
+        setGenerateError({
+          error: 'Failed to refine code',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      generateAbortRef.current = null;
+      setIsGenerating(false);
+      setGenerationStatus('');
+    }
+  };
+
+  const toggleRefinementFile = (filePath: string) => {
+    setPendingRefinement(pending => {
+      if (!pending) return pending;
+      const accepted = new Set(pending.accepted);
+      if (accepted.has(filePath)) accepted.delete(filePath);
+      else accepted.add(filePath);
+      return { ...pending, accepted };
+    });
+  };
+
+  // Rejected files keep whatever the editor has now, including edits made during review.
+  // The new version is recorded with the files as applied, not as proposed
+  const handleApplyRefinement = async () => {
+    if (!pendingRefinement || !projectId) return;
+
+    const { instruction, parentId, result, changes, accepted } = pendingRefinement;
+    const files = applyChanges(editor.files, changes, accepted);
+    editor.load(files);
+    setActiveFile(current => (current in files ? current : Object.keys(files).sort()[0] || ''));
+    setGenerationInfo(result);
+    setBuildAttempts(result.attempts || []);
+    setCheckResult(null);
+    setCheckError(null);
+    setTestResult(null);
+    setPendingRefinement(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/generations`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({
+          prompt: instruction,
+          parentId,
+          signingMode: result.signingMode,
+          metadata: result.metadata,
+          moveFiles: filesUnder(files, MOVE_PREFIX),
+          frontendFiles: filesUnder(files, FRONTEND_PREFIX),
+          provider: result.provider,
+          model: result.model,
+          usage: result.usage,
+        }),
       });
-      
       if (!response.ok) {
-        throw new Error('Failed to generate code');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `HTTP ${response.status}`);
       }
-      
-      const { moveCode, frontendCode } = await response.json();
-      setGeneratedCode({ moveCode, frontendCode });
+
+      const generation: Generation = await response.json();
+      setGenerationId(generation.id);
+      setHistoryRefreshKey(k => k + 1);
     } catch (error) {
-      console.error('Error generating code:', error);
-      // Handle error
+      console.error('Error recording refinement:', error);
+      setGenerateError({
+        error: 'The refinement was applied but could not be saved as a version',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  // Rolls the editor back (or forward) to another version, keeping the deployment to upgrade
+  const handleRestoreVersion = (generation: Generation) => {
+    loadCode(generation.moveFiles, resolveFrontendFiles(generation));
+    setGenerationId(generation.id);
+    setGenerationInfo(generation.provider ? generation : null);
+    setGeneratedSigningMode(generation.signingMode);
+  };
+
+  // Builds every template against the chosen network and refreshes their status
+  const handleVerifyTemplates = async () => {
+    setIsVerifyingTemplates(true);
+    try {
+      const response = await fetch('/api/templates/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ network }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || 'Failed to verify templates');
+      }
+      setTemplatesRefreshKey(k => k + 1);
+    } catch (error) {
+      console.error('Error verifying templates:', error);
+      alert(`Error verifying templates: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      setIsGenerating(false);
+      setIsVerifyingTemplates(false);
     }
   };
 
+  const handleStopGenerating = () => {
+    generateAbortRef.current?.abort();
+  };
+
   // Alias for handleGenerate to match the UI
   const handleGenerateCode = handleGenerate;
 
+  const handleCheck = async () => {
+    if (!hasCode) return;
+
+    setIsChecking(true);
+    setCheckResult(null);
+    setCheckError(null);
+
+    try {
+      const response = await fetch('/api/compile-contract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          moveFiles,
+          network: deployment.packageId ? deployment.network : network,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(
+          [errorData.error || 'Failed to compile contract', errorData.details].filter(Boolean).join(': ')
+        );
+      }
+
+      setCheckResult(await response.json());
+    } catch (error) {
+      console.error('Error checking contract:', error);
+      setCheckError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (!isMoveFileActive) setActiveFile(firstMoveFile);
+      setIsChecking(false);
+    }
+  };
+
+  // Downloads the editor's code, with the deployment's IDs if it has one, as a standalone project
+  const handleExport = async () => {
+    if (!hasCode) return;
+
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      const response = await fetch('/api/export-project', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: generationInfo?.metadata?.dappName || 'Sui DApp',
+          moveFiles,
+          frontendFiles,
+          signingMode: generatedSigningMode,
+          network: deployment.packageId ? deployment.network : network,
+          deployment: deployment.packageId ? deployment : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || 'Failed to export project');
+      }
+
+      const fileName = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1];
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName || 'sui-dapp.zip';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      setExportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRunTests = async () => {
+    if (!hasCode) return;
+
+    setIsTesting(true);
+    setTestResult(null);
+
+    try {
+      const response = await fetch('/api/test-contract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          moveFiles,
+          network,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || 'Failed to run Move tests');
+      }
+
+      setTestResult(await response.json());
+    } catch (error) {
+      console.error('Error running Move tests:', error);
+      alert(`Error running Move tests: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  // Sends the failures back to the generator as a refinement, reviewed like any other
+  const handleFixTests = () => {
+    if (!testResult) return;
+
+    const failures = testResult.errors.length > 0
+      ? testResult.errors.map(d => `- ${d.message}${d.file ? ` (${d.file}:${d.line})` : ''}`)
+      : testResult.tests
+        .filter(t => t.status !== 'pass')
+        .map(t => `- ${t.name}: ${t.message || t.status}${t.file ? ` (${t.file}:${t.line})` : ''}`);
+
+    handleRefine(
+      'Make the Move unit tests pass. Fix the contract where a test exposes a bug, '
+      + `and the test where its expectation is wrong:\n${failures.join('\n')}`
+    );
+  };
+
+  // Dry-runs the publish so the user can see what it costs before confirming
+  const handleEstimateDeploy = async () => {
+    if (!hasCode) return;
+
+    setIsEstimating(true);
+    setDeployEstimate(null);
+    setDeployDiagnostics([]);
+    setBlockedFindings([]);
+    setDeployError(null);
+    setDeployWarnings([]);
+
+    try {
+      const response = await fetch('/api/deploy-contract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          moveFiles,
+          frontendFiles,
+          network,
+          blockOnLint,
+          dryRun: true,
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setDeployDiagnostics(result.diagnostics || []);
+        setBlockedFindings(result.lintFindings || []);
+        if (!result.diagnostics && !result.lintFindings) {
+          setDeployError({ error: result.error || 'Failed to estimate the deploy', details: result.details });
+        }
+        return;
+      }
+
+      setDeployEstimate(result);
+    } catch (error) {
+      console.error('Error estimating deploy:', error);
+      setDeployError({ error: 'Failed to estimate the deploy', details: String(error) });
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
   const handleDeploy = async () => {
-    if (!generatedCode.moveCode) return;
+    if (!hasCode) return;
     
     setIsDeploying(true);
+    setDeployDiagnostics([]);
+    setBlockedFindings([]);
+    setDeployError(null);
+    setDeployWarnings([]);
+    setDeployEstimate(null);
+    // The preview should run the same frontend that was current at deploy time
+    editor.save();
     
     try {
       const response = await fetch('/api/deploy-contract', {
@@ -86,25 +851,115 @@ export default function Home() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          moveCode: generatedCode.moveCode,
+          moveFiles,
+          frontendFiles,
+          projectId,
+          generationId,
+          network,
+          signingMode: generatedSigningMode,
+          blockOnLint,
         }),
       });
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to deploy contract');
+        setDeployDiagnostics(errorData.diagnostics || []);
+        setBlockedFindings(errorData.lintFindings || []);
+        if (!errorData.diagnostics && !errorData.lintFindings) {
+          setDeployError({ error: errorData.error || 'Failed to deploy contract', details: errorData.details });
+        }
+        return;
       }
       
-      const { packageId, objectId, burnerPrivateKey } = await response.json();
-      setDeployment({ packageId, objectId, burnerPrivateKey });
+      const result = await response.json();
+      setDeployment({
+        deploymentId: result.deploymentId,
+        packageId: result.packageId,
+        originalPackageId: result.packageId,
+        version: 1,
+        upgradeCapId: result.upgradeCapId,
+        objectId: result.objectId || '',
+        createdObjects: result.createdObjects,
+        network: result.network,
+        signingSessionId: result.signingSessionId || '',
+        signingAddress: result.signingAddress || '',
+      });
+      setDeployWarnings(result.warnings || []);
+      setHistoryRefreshKey(k => k + 1);
     } catch (error) {
       console.error('Error deploying contract:', error);
-      // Could add error toast here
+      setDeployError({ error: 'Failed to deploy contract', details: String(error) });
     } finally {
       setIsDeploying(false);
     }
   };
 
+  const handleUpgrade = async () => {
+    if (!hasCode || !deployment.deploymentId) return;
+
+    setIsUpgrading(true);
+    setDeployDiagnostics([]);
+    setBlockedFindings([]);
+    setDeployError(null);
+    setDeployWarnings([]);
+    setUpgradeError(null);
+    editor.save();
+
+    try {
+      const response = await fetch('/api/upgrade-contract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          moveFiles,
+          frontendFiles,
+          projectId,
+          generationId,
+          deploymentId: deployment.deploymentId,
+          signingMode: generatedSigningMode,
+          blockOnLint,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        setDeployDiagnostics(errorData.diagnostics || []);
+        setBlockedFindings(errorData.lintFindings || []);
+        // Anything not shown as diagnostics or lint findings, e.g. the compatibility check
+        if (!errorData.diagnostics?.length && !errorData.lintFindings?.length) {
+          setUpgradeError({
+            error: errorData.error || 'Failed to upgrade contract',
+            details: errorData.details,
+            issues: errorData.issues,
+          });
+        }
+        return;
+      }
+
+      const result = await response.json();
+      setDeployment({
+        deploymentId: result.deploymentId,
+        packageId: result.packageId,
+        originalPackageId: result.originalPackageId,
+        version: result.version,
+        upgradeCapId: result.upgradeCapId,
+        objectId: result.objectId || '',
+        createdObjects: result.createdObjects,
+        network: result.network,
+        signingSessionId: result.signingSessionId || '',
+        signingAddress: result.signingAddress || '',
+      });
+      setDeployWarnings(result.warnings || []);
+      setHistoryRefreshKey(k => k + 1);
+    } catch (error) {
+      console.error('Error upgrading contract:', error);
+      setUpgradeError({ error: 'Failed to upgrade contract', details: String(error) });
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-100">
       <header className="bg-white shadow-sm">
@@ -117,6 +972,15 @@ export default function Home() {
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
           <h1 className="text-3xl font-bold text-center mb-8">Sui Studio Lite</h1>
+
+          {/* Project History */}
+          <ProjectHistory
+            activeProjectId={projectId}
+            refreshKey={historyRefreshKey}
+            onOpenGeneration={handleOpenGeneration}
+            onOpenDeployment={handleOpenDeployment}
+            className="mb-8"
+          />
           
           {/* Input Section */}
           <div className="mb-8">
@@ -125,7 +989,9 @@ export default function Home() {
                 type="text"
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
-                placeholder="Describe your DApp (e.g., a counter contract and UI)"
+                placeholder={templateId
+                  ? 'Describe changes to the template, or leave empty to use it as-is'
+                  : 'Describe your DApp (e.g., a counter contract and UI)'}
                 className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' && !isGenerating) {
@@ -133,6 +999,52 @@ export default function Home() {
                   }
                 }}
               />
+              {projectId && (
+                <button
+                  onClick={handleNewProject}
+                  disabled={isGenerating}
+                  className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50 text-sm whitespace-nowrap"
+                  title="Start a new project instead of adding to the open one"
+                >
+                  New Project
+                </button>
+              )}
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                disabled={isGenerating}
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title={templates.find(t => t.id === templateId)?.description || 'Generate from scratch or start from a vetted template'}
+              >
+                <option value="">Blank</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                    {template.verification && (template.verification.success ? ' ✓' : ' ✗')}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={signingMode}
+                onChange={(e) => setSigningMode(e.target.value as SigningMode)}
+                disabled={isGenerating}
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="How the generated frontend signs transactions"
+              >
+                <option value="burner">Studio burner</option>
+                <option value="wallet">Browser wallet</option>
+              </select>
+              <select
+                value={llmProvider}
+                onChange={(e) => setLlmProvider(e.target.value as LlmProviderName | '')}
+                disabled={isGenerating}
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Model provider used for generation"
+              >
+                <option value="">Default model</option>
+                <option value="gemini">Gemini</option>
+                <option value="openai">OpenAI-compatible</option>
+              </select>
               <button
                 onClick={handleGenerateCode}
                 disabled={isGenerating}
@@ -141,83 +1053,399 @@ export default function Home() {
                 {isGenerating ? (
                   <span className="flex items-center gap-2">
                     <BeatLoader size={8} color="white" />
-                    Generating...
+                    {generationStatus}
                   </span>
-                ) : 'Generate Code'}
+                ) : templateId && !prompt.trim() ? 'Use Template' : 'Generate Code'}
               </button>
-            </div>
-          </div>
-          
-          {/* Code Tabs */}
-          {generatedCode.moveCode && (
-            <div className="mb-8 bg-white rounded-lg shadow overflow-hidden">
-              <div className="flex border-b border-gray-200 px-4">
+              {isGenerating && (
                 <button
-                  className={`px-4 py-3 font-medium text-sm ${activeTab === 'move' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
-                  onClick={() => setActiveTab('move')}
+                  onClick={handleStopGenerating}
+                  className="px-4 py-2 border border-red-300 bg-white text-red-600 rounded-md hover:bg-red-50 text-sm whitespace-nowrap"
                 >
-                  Move Contract
+                  Stop
                 </button>
+              )}
+            </div>
+            {selectedTemplate && (
+              <p className="mt-2 text-xs text-gray-500">
+                {selectedTemplate.description}
+                {' · '}
+                {!selectedTemplate.verification
+                  ? `Not yet built against ${NETWORKS[network].label}`
+                  : selectedTemplate.verification.success
+                    ? `Builds against ${NETWORKS[network].label}`
+                    : `Fails to build against ${NETWORKS[network].label}: ${selectedTemplate.verification.errors[0]?.message || 'unknown error'}`}
+                {' · '}
                 <button
-                  className={`px-4 py-3 font-medium text-sm ${activeTab === 'frontend' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
-                  onClick={() => setActiveTab('frontend')}
+                  onClick={handleVerifyTemplates}
+                  disabled={isVerifyingTemplates}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title="Compile every template against this network's framework"
                 >
-                  Frontend Code
+                  {isVerifyingTemplates ? 'Building templates...' : 'Check templates build'}
                 </button>
-              </div>
-              <div className="max-h-[500px] overflow-auto">
-                {activeTab === 'move' ? (
-                  <SyntaxHighlighter 
-                    language="rust" 
-                    style={atomDark} 
-                    showLineNumbers
-                    customStyle={{
-                      margin: 0,
-                      borderRadius: 0,
-                      padding: '1rem',
-                      fontSize: '0.875rem',
-                      lineHeight: '1.5'
-                    }}
+              </p>
+            )}
+          </div>
+          
+          {generationInfo && !isGenerating && (
+            <div className="-mt-6 mb-8 text-xs text-gray-500">
+              {generationInfo.metadata && (
+                <p className="text-sm text-gray-700 mb-1">
+                  <span className="font-medium">{generationInfo.metadata.dappName}</span>
+                  {generationInfo.metadata.description && ` — ${generationInfo.metadata.description}`}
+                  {generationInfo.metadata.entryFunctions.length > 0 && (
+                    <span className="block text-xs text-gray-500">
+                      Entry functions:{' '}
+                      {generationInfo.metadata.entryFunctions.map(f => (
+                        <code key={`${f.module}::${f.name}`} className="mr-2" title={f.description}>
+                          {f.module}::{f.name}
+                        </code>
+                      ))}
+                    </span>
+                  )}
+                </p>
+              )}
+              <p>
+                {generationInfo.provider === 'template'
+                  ? `Template: ${templates.find(t => t.id === generationInfo.model)?.name || generationInfo.model}`
+                  : `Generated by ${generationInfo.provider} · ${generationInfo.model}`}
+                {generationInfo.usage && ` · ${generationInfo.usage.totalTokens.toLocaleString()} tokens (${generationInfo.usage.promptTokens.toLocaleString()} prompt, ${generationInfo.usage.completionTokens.toLocaleString()} completion)`}
+              </p>
+            </div>
+          )}
+
+          {/* Generation Errors */}
+          {generateError && (
+            <div className="-mt-4 mb-8 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              <h3 className="font-medium text-red-800 mb-1">{generateError.error}</h3>
+              {generateError.fieldErrors ? (
+                <ul className="list-disc list-inside space-y-0.5">
+                  {generateError.fieldErrors.map((fieldError, i) => (
+                    <li key={i}>
+                      {fieldError.path && <code className="text-xs">{fieldError.path}</code>}
+                      {fieldError.path && ': '}
+                      {fieldError.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : generateError.details && (
+                <p className="font-mono text-xs">{generateError.details}</p>
+              )}
+            </div>
+          )}
+
+          {/* Project Files */}
+          {hasCode && (
+            <div className="mb-8 bg-white rounded-lg shadow overflow-hidden flex">
+              <FileTree
+                paths={projectPaths}
+                activePath={activeFile}
+                dirtyPaths={projectPaths.filter(editor.isDirty)}
+                onSelect={setActiveFile}
+                className="w-48 shrink-0 border-r border-gray-200 bg-gray-50"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex border-b border-gray-200 px-4 overflow-x-auto">
+                  {projectPaths.map(filePath => (
+                    <button
+                      key={filePath}
+                      className={`px-4 py-3 font-medium text-sm whitespace-nowrap ${editorView === 'code' && activeFile === filePath ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                      onClick={() => {
+                        setActiveFile(filePath);
+                        setEditorView('code');
+                      }}
+                      title={filePath}
+                    >
+                      {filePath.split('/').pop()}
+                      {editor.isDirty(filePath) && <span className="ml-1 text-orange-500">●</span>}
+                    </button>
+                  ))}
+                  <button
+                    className={`ml-auto px-4 py-3 font-medium text-sm whitespace-nowrap ${editorView === 'tests' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                    onClick={() => setEditorView('tests')}
                   >
-                    {generatedCode.moveCode}
-                  </SyntaxHighlighter>
-                ) : (
-                  <SyntaxHighlighter 
-                    language="typescript" 
-                    style={atomDark} 
-                    showLineNumbers
-                    customStyle={{
-                      margin: 0,
-                      borderRadius: 0,
-                      padding: '1rem',
-                      fontSize: '0.875rem',
-                      lineHeight: '1.5'
+                    Tests
+                    {testResult && (
+                      <span className={`ml-1 ${testResult.success ? 'text-green-600' : 'text-red-600'}`}>
+                        {testResult.success ? '✓' : '✗'}
+                      </span>
+                    )}
+                  </button>
+                </div>
+                {editorView === 'tests' ? (
+                  <MoveTestResults
+                    result={testResult}
+                    isRunning={isTesting}
+                    onRun={handleRunTests}
+                    onFix={projectId && generationId ? handleFixTests : undefined}
+                    isFixing={isGenerating}
+                    onOpenFile={file => {
+                      setActiveFile(MOVE_PREFIX + file);
+                      setEditorView('code');
                     }}
-                  >
-                    {generatedCode.frontendCode}
-                  </SyntaxHighlighter>
+                    className="max-h-[600px] overflow-auto"
+                  />
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 text-xs">
+                      <span className="font-mono text-gray-500">
+                        {activeFile}
+                        {editor.isDirty(activeFile) && ' (modified)'}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => editor.undo(activeFile)}
+                          disabled={!editor.canUndo(activeFile)}
+                          className="px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-40"
+                          title="Undo (Ctrl+Z)"
+                        >
+                          Undo
+                        </button>
+                        <button
+                          onClick={() => editor.redo(activeFile)}
+                          disabled={!editor.canRedo(activeFile)}
+                          className="px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-40"
+                          title="Redo (Ctrl+Shift+Z)"
+                        >
+                          Redo
+                        </button>
+                        <button
+                          onClick={() => editor.revert(activeFile)}
+                          disabled={!editor.isDirty(activeFile)}
+                          className="px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-40"
+                        >
+                          Revert
+                        </button>
+                        <button
+                          onClick={editor.save}
+                          disabled={!editor.hasUnsavedChanges}
+                          className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40"
+                          title="Save all files and refresh the preview (Ctrl+S)"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={handleExport}
+                          disabled={isExporting}
+                          className="px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-40"
+                          title="Download the Move package and the frontend as a standalone project"
+                        >
+                          {isExporting ? 'Exporting...' : 'Export'}
+                        </button>
+                      </div>
+                    </div>
+                    {exportError && (
+                      <p className="px-4 py-1 border-b border-gray-200 text-xs text-red-700">Export failed: {exportError}</p>
+                    )}
+                    <div className="max-h-[500px] overflow-auto">
+                      <CodeEditor
+                        value={editor.files[activeFile] ?? ''}
+                        language={isMoveFileActive ? 'move' : 'tsx'}
+                        onChange={content => editor.update(activeFile, content)}
+                        onUndo={() => editor.undo(activeFile)}
+                        onRedo={() => editor.redo(activeFile)}
+                        onSave={editor.save}
+                      />
+                    </div>
+                    {isMoveFileActive && checkError && (
+                      <p className="border-t border-gray-200 px-4 py-3 bg-gray-50 text-sm text-red-700">
+                        Check failed: {checkError}
+                      </p>
+                    )}
+                    {isMoveFileActive && checkResult && (
+                      <div className="border-t border-gray-200 px-4 py-3 bg-gray-50">
+                        <p className={`text-sm font-medium mb-2 ${checkResult.success ? 'text-green-700' : 'text-red-700'}`}>
+                          {checkResult.success
+                            ? `Compiled ${checkResult.modules.length} module(s) against ${checkResult.dependencies.length} dependencies`
+                            : 'Compilation failed'}
+                        </p>
+                        <DiagnosticsList
+                          diagnostics={[...checkResult.errors, ...checkResult.warnings].filter(
+                            d => d.file === null || MOVE_PREFIX + d.file === activeFile
+                          )}
+                        />
+                      </div>
+                    )}
+                    {isMoveFileActive && activeFileFindings.length > 0 && (
+                      <div className="border-t border-gray-200 px-4 py-3 bg-gray-50">
+                        <p className="text-sm font-medium mb-2 text-gray-700">
+                          Safety lint ({activeFileFindings.length})
+                        </p>
+                        <LintFindings findings={activeFileFindings} />
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             </div>
           )}
           
-          {/* Deploy Button */}
-          {generatedCode.moveCode && !deployment.packageId && (
-            <div className="flex justify-center mb-8">
+          {/* Follow-up Instructions */}
+          {hasCode && projectId && generationId && (
+            <RefinementChat
+              projectId={projectId}
+              generationId={generationId}
+              refreshKey={historyRefreshKey}
+              isGenerating={isGenerating}
+              generationStatus={generationStatus}
+              onSend={handleRefine}
+              onRestore={handleRestoreVersion}
+              className="mb-8"
+            />
+          )}
+
+          {/* Refinement Review */}
+          {pendingRefinement && (
+            <FileDiffReview
+              changes={pendingRefinement.changes}
+              accepted={pendingRefinement.accepted}
+              onToggle={toggleRefinementFile}
+              onApply={handleApplyRefinement}
+              onDiscard={() => setPendingRefinement(null)}
+              className="mb-8"
+            />
+          )}
+
+          {/* Compiler Repair History */}
+          {buildAttempts.length > 1 && (
+            <div className="mb-8 p-4 bg-white rounded-lg shadow">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">
+                Compiler repair rounds ({buildAttempts.length - 1})
+              </h3>
+              <div className="space-y-3">
+                {buildAttempts.map(attempt => (
+                  <div key={attempt.round}>
+                    <p className={`text-xs font-medium mb-1 ${attempt.success ? 'text-green-700' : 'text-red-700'}`}>
+                      {attempt.round === 0 ? 'Initial generation' : `Repair round ${attempt.round}`}
+                      {attempt.success ? ' — compiled' : ' — failed'}
+                    </p>
+                    <DiagnosticsList diagnostics={attempt.diagnostics} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Deploy Compilation Errors */}
+          {deployDiagnostics.length > 0 && (
+            <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-md">
+              <h3 className="font-medium text-red-800 mb-2">Move compilation failed</h3>
+              <DiagnosticsList diagnostics={deployDiagnostics} />
+            </div>
+          )}
+          
+          {/* Deploy Blocked by Lint */}
+          {blockedFindings.length > 0 && (
+            <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-md">
+              <h3 className="font-medium text-red-800 mb-2">Blocked by high-severity lint findings</h3>
+              <LintFindings findings={blockedFindings} showFile />
+            </div>
+          )}
+
+          {/* Deploy Errors */}
+          {deployError && (
+            <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              <h3 className="font-medium text-red-800 mb-1">{deployError.error}</h3>
+              {deployError.details && <p className="font-mono text-xs">{deployError.details}</p>}
+            </div>
+          )}
+
+          {/* Deploy Warnings */}
+          {deployWarnings.length > 0 && (
+            <div className="mb-8 p-4 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+              <h3 className="font-medium mb-1">Published, but some follow-up steps failed</h3>
+              <ul className="list-disc list-inside space-y-0.5">
+                {deployWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {/* Upgrade Errors */}
+          {upgradeError && (
+            <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              <h3 className="font-medium text-red-800 mb-1">{upgradeError.error}</h3>
+              {upgradeError.details && <p className="font-mono text-xs">{upgradeError.details}</p>}
+              {upgradeError.issues && (
+                <ul className="list-disc list-inside space-y-0.5">
+                  {upgradeError.issues.map((issue, i) => (
+                    <li key={i}><code className="text-xs">{issue.module}</code>: {issue.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Check and Deploy Buttons; only Check once deployed */}
+          {hasCode && (
+            <div className="flex justify-center gap-4 mb-8">
               <button
-                onClick={handleDeploy}
-                disabled={isDeploying}
-                className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                onClick={handleCheck}
+                disabled={isChecking || isEstimating || isDeploying || isGenerating}
+                className="px-6 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
               >
-                {isDeploying ? (
+                {isChecking ? (
                   <>
-                    <BeatLoader size={8} color="white" />
-                    <span>Deploying...</span>
+                    <BeatLoader size={8} color="#4B5563" />
+                    <span>Checking...</span>
                   </>
-                ) : 'Deploy to Testnet'}
+                ) : 'Check'}
               </button>
+              {!deployment.packageId && (
+                <>
+                  <select
+                    value={network}
+                    onChange={(e) => setNetwork(e.target.value as SuiNetwork)}
+                    disabled={isEstimating || isDeploying}
+                    className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700"
+                    title="Network to build against and deploy to"
+                  >
+                    {SUI_NETWORKS.map(n => (
+                      <option key={n} value={n}>{NETWORKS[n].label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleEstimateDeploy}
+                    disabled={isEstimating || isDeploying || isGenerating || deployEstimate !== null}
+                    className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    title="Estimates the gas cost first; nothing is published until you confirm"
+                  >
+                    {isEstimating || isDeploying ? (
+                      <>
+                        <BeatLoader size={8} color="white" />
+                        <span>{isEstimating ? 'Estimating...' : 'Deploying...'}</span>
+                      </>
+                    ) : `Deploy to ${NETWORKS[network].label}`}
+                  </button>
+                  <label
+                    className="flex items-center gap-2 text-sm text-gray-700"
+                    title={`${lintFindings.filter(f => f.severity === 'high').length} high-severity finding(s) in the open code`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={blockOnLint}
+                      onChange={(e) => setBlockOnLint(e.target.checked)}
+                    />
+                    Block on high-severity lint
+                  </label>
+                </>
+              )}
             </div>
           )}
+          {hasCode && !deployment.packageId && deployEstimate && (
+            <GasEstimateConfirm
+              estimate={deployEstimate}
+              isDeploying={isDeploying}
+              onConfirm={handleDeploy}
+              onCancel={() => setDeployEstimate(null)}
+              className="-mt-4 mb-8"
+            />
+          )}
+          {hasCode && !deployment.packageId && network === 'localnet' && (
+            <p className="-mt-6 mb-8 text-center text-xs text-gray-500">
+              Localnet expects a node started with <code>sui start --with-faucet</code> on this machine.
+            </p>
+          )}
           
           {/* Deployment Info */}
           {deployment.packageId && (
@@ -226,12 +1454,53 @@ export default function Home() {
                 <div>
                   <h3 className="font-medium text-green-800 mb-2">Deployment Successful! 🎉</h3>
                   <div className="text-sm text-green-700 space-y-1">
+                    <p><span className="font-medium">Network:</span> {NETWORKS[deployment.network].label}</p>
                     <p><span className="font-medium">Package ID:</span> <code className="text-xs bg-green-100 px-1.5 py-0.5 rounded">{deployment.packageId}</code></p>
-                    <p><span className="font-medium">Object ID:</span> <code className="text-xs bg-green-100 px-1.5 py-0.5 rounded">{deployment.objectId}</code></p>
-                    <p className="text-xs text-green-600 mt-2">
-                      Note: Save the private key to interact with the contract. It won't be shown again.
-                    </p>
+                    {deployment.version > 1 && (
+                      <p>
+                        <span className="font-medium">Version {deployment.version} of:</span>{' '}
+                        <code className="text-xs bg-green-100 px-1.5 py-0.5 rounded">{deployment.originalPackageId}</code>
+                      </p>
+                    )}
+                    {deployment.objectId && (
+                      <p><span className="font-medium">Main object:</span> <code className="text-xs bg-green-100 px-1.5 py-0.5 rounded">{deployment.objectId}</code></p>
+                    )}
+                    {deployment.signingAddress && (
+                      <p><span className="font-medium">Preview signer:</span> <code className="text-xs bg-green-100 px-1.5 py-0.5 rounded">{deployment.signingAddress}</code></p>
+                    )}
+                    <DeployedObjects objects={deployment.createdObjects} />
+                    {/* Wallet-mode previews sign with the user's wallet, not the proxy */}
+                    {generatedSigningMode === 'burner' && deployment.signingSessionId && (
+                      <p className="text-xs text-green-600 mt-2">
+                        The preview signs through the studio&apos;s signing proxy, limited to calls into this package. No private key leaves the server.
+                      </p>
+                    )}
                   </div>
+                  {deployment.upgradeCapId && deployment.deploymentId && (
+                    <button
+                      onClick={handleUpgrade}
+                      disabled={isUpgrading || !hasCode}
+                      className="mt-3 px-4 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                      title="Publish the edited Move code as a new version of this package"
+                    >
+                      {isUpgrading ? (
+                        <>
+                          <BeatLoader size={6} color="white" />
+                          <span>Upgrading...</span>
+                        </>
+                      ) : 'Upgrade Package'}
+                    </button>
+                  )}
+                  {deployment.upgradeCapId && deployment.deploymentId && (
+                    <label className="mt-2 flex items-center gap-2 text-xs text-green-700">
+                      <input
+                        type="checkbox"
+                        checked={blockOnLint}
+                        onChange={(e) => setBlockOnLint(e.target.checked)}
+                      />
+                      Block the upgrade on high-severity lint findings
+                    </label>
+                  )}
                 </div>
                 <button
                   onClick={() => {
@@ -249,14 +1518,48 @@ export default function Home() {
             </div>
           )}
           
+          {/* Contract Console */}
+          {deployment.packageId && deployment.signingSessionId && (
+            <div className="mb-8 bg-white shadow rounded-lg overflow-hidden border border-gray-200">
+              <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+                <h3 className="text-sm font-medium text-gray-900">Console</h3>
+                <p className="text-xs text-gray-500">Call the package directly, signed by the preview signer</p>
+              </div>
+              <ContractConsole
+                key={deployment.packageId}
+                packageId={deployment.packageId}
+                network={deployment.network}
+                signingSessionId={deployment.signingSessionId}
+                signingAddress={deployment.signingAddress}
+                createdObjects={deployment.createdObjects}
+              />
+            </div>
+          )}
+
+          {/* Package Inspector */}
+          {deployment.packageId && (
+            <div className="mb-8 bg-white shadow rounded-lg overflow-hidden border border-gray-200">
+              <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+                <h3 className="text-sm font-medium text-gray-900">Inspector</h3>
+                <p className="text-xs text-gray-500">Live object fields, events and transactions of the deployed package</p>
+              </div>
+              <PackageInspector
+                key={deployment.packageId}
+                packageId={deployment.packageId}
+                network={deployment.network}
+                createdObjects={deployment.createdObjects}
+              />
+            </div>
+          )}
+
           {/* Preview Section */}
-          {deployment.packageId && generatedCode.frontendCode && (
+          {deployment.packageId && savedFrontendFiles[FRONTEND_ENTRY] && (
             <div className="bg-white shadow rounded-lg overflow-hidden border border-gray-200">
               <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center bg-gray-50">
                 <h3 className="text-sm font-medium text-gray-900">Live Preview</h3>
                 <div className="flex space-x-2">
                   <a
-                    href={`https://suiexplorer.com/object/${deployment.objectId}?network=testnet`}
+                    href={explorerUrl(deployment.network, deployment.objectId || deployment.packageId)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-xs px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 flex items-center gap-1"
@@ -270,10 +1573,15 @@ export default function Home() {
               </div>
               <div className="h-[600px] w-full relative">
                 <WebContainerPreview
-                  frontendCode={generatedCode.frontendCode}
+                  frontendFiles={savedFrontendFiles}
                   packageId={deployment.packageId}
+                  originalPackageId={deployment.originalPackageId}
                   objectId={deployment.objectId}
-                  privateKey={deployment.burnerPrivateKey}
+                  objects={deployment.createdObjects}
+                  network={deployment.network}
+                  signingSessionId={deployment.signingSessionId}
+                  signingAddress={deployment.signingAddress}
+                  signingMode={generatedSigningMode}
                 />
               </div>
             </div>
@@ -0,0 +1,121 @@
+'use client';
+
+import { KeyboardEvent } from 'react';
+import { PrismLight as SyntaxHighlighter } from 'react-syntax-highlighter';
+import tsx from 'react-syntax-highlighter/dist/cjs/languages/prism/tsx';
+import { atomDark } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+import move from '@/lib/moveSyntax';
+
+SyntaxHighlighter.registerLanguage('tsx', tsx);
+SyntaxHighlighter.registerLanguage('move', move);
+
+interface CodeEditorProps {
+  value: string;
+  language: 'move' | 'tsx';
+  onChange: (value: string) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onSave?: () => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+// The textarea and the highlighted <pre> must share exact metrics so the caret lines up
+const sharedStyle = {
+  margin: 0,
+  padding: '1rem',
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+  fontSize: '0.875rem',
+  lineHeight: '1.5',
+  whiteSpace: 'pre' as const,
+  tabSize: 2,
+};
+
+const INDENT = '  ';
+
+/**
+ * Plain-textarea code editor layered over a syntax-highlighted copy of the
+ * same text. Undo/redo/save are routed to the caller so history survives
+ * switching between files.
+ */
+export default function CodeEditor({
+  value,
+  language,
+  onChange,
+  onUndo,
+  onRedo,
+  onSave,
+  readOnly = false,
+  className = ''
+}: CodeEditorProps) {
+  const lineCount = value.split('\n').length;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.metaKey || e.ctrlKey;
+    const key = e.key.toLowerCase();
+
+    if (mod && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onRedo?.();
+      } else {
+        onUndo?.();
+      }
+    } else if (mod && key === 'y') {
+      e.preventDefault();
+      onRedo?.();
+    } else if (mod && key === 's') {
+      e.preventDefault();
+      onSave?.();
+    } else if (e.key === 'Tab' && !readOnly) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+      // Restore the caret after React re-renders the new value
+      requestAnimationFrame(() => {
+        textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+      });
+    }
+  };
+
+  return (
+    <div className={`flex bg-[#1d1f21] ${className}`}>
+      <div
+        aria-hidden
+        className="select-none text-right text-gray-500 border-r border-gray-700"
+        style={{ ...sharedStyle, paddingRight: '0.75rem' }}
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i}>{i + 1}</div>
+        ))}
+      </div>
+      <div className="relative flex-1 min-w-0">
+        <div className="relative inline-block min-w-full">
+          {/* A trailing newline keeps the last empty line the same height as the textarea's */}
+          <SyntaxHighlighter
+            language={language}
+            style={atomDark}
+            customStyle={{ ...sharedStyle, background: 'transparent', overflow: 'visible' }}
+            codeTagProps={{ style: { fontFamily: 'inherit', fontSize: 'inherit', lineHeight: 'inherit' } }}
+          >
+            {value + '\n'}
+          </SyntaxHighlighter>
+          <textarea
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            readOnly={readOnly}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            autoCorrect="off"
+            wrap="off"
+            className="absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-white outline-none selection:bg-blue-500/40"
+            style={sharedStyle}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
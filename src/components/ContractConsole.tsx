@@ -0,0 +1,292 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { BeatLoader } from 'react-spinners';
+import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { CreatedObject } from '@/lib/deployedObjects';
+import { addConsoleCall, ConsoleFunction, ConsoleParam, GAS_COIN, listCallableFunctions } from '@/lib/moveAbi';
+import { NETWORKS, SuiNetwork } from '@/lib/networks';
+
+interface ContractConsoleProps {
+  packageId: string;
+  network: SuiNetwork;
+  signingSessionId: string;
+  signingAddress: string;
+  // Objects the publish created, offered for object arguments
+  createdObjects: CreatedObject[];
+  className?: string;
+}
+
+interface ObjectOption {
+  objectId: string;
+  objectType: string;
+}
+
+// `0x00..2::coin::Coin<...>` -> `0x2::coin::Coin`, so types compare across formats
+function baseStruct(type: string): string {
+  const [address, ...rest] = type.replace(/<[\s\S]*$/, '').split('::');
+  return [normalizeSuiAddress(address), ...rest].join('::');
+}
+
+function fnKey(fn: ConsoleFunction) {
+  return `${fn.module}::${fn.name}`;
+}
+
+function objectCandidates(param: ConsoleParam, objects: ObjectOption[]): ObjectOption[] {
+  if (param.input.kind !== 'object' || !param.input.type) return objects;
+  const wanted = baseStruct(param.input.type);
+  return objects.filter(o => baseStruct(o.objectType) === wanted);
+}
+
+function isSuiCoin(param: ConsoleParam) {
+  return param.input.kind === 'object' && param.input.type === '0x2::coin::Coin<0x2::sui::SUI>';
+}
+
+/**
+ * Calls any public or entry function of the deployed package, with inputs
+ * generated from its on-chain ABI. Transactions go through the deployment's
+ * signing session, so this works even when the generated app doesn't.
+ */
+export default function ContractConsole({
+  packageId,
+  network,
+  signingSessionId,
+  signingAddress,
+  createdObjects,
+  className = ''
+}: ContractConsoleProps) {
+  const client = useMemo(() => new SuiClient({ url: NETWORKS[network].rpcUrl }), [network]);
+  const [functions, setFunctions] = useState<ConsoleFunction[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [ownedObjects, setOwnedObjects] = useState<ObjectOption[]>([]);
+  const [selected, setSelected] = useState('');
+  const [typeArguments, setTypeArguments] = useState<string[]>([]);
+  const [values, setValues] = useState<string[]>([]);
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [result, setResult] = useState<SuiTransactionBlockResponse | null>(null);
+  const [callError, setCallError] = useState<string | null>(null);
+
+  // The package's ABI, read from the chain rather than the editor's sources
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+
+    client.getNormalizedMoveModulesByPackage({ package: packageId })
+      .then(modules => {
+        if (cancelled) return;
+        const callable = listCallableFunctions(modules);
+        setFunctions(callable);
+        setSelected(callable.length > 0 ? fnKey(callable[0]) : '');
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, packageId]);
+
+  // Only the signer decides which objects are offered
+  const refreshOwnedObjects = useCallback(async () => {
+    const owned = await client.getOwnedObjects({ owner: signingAddress, options: { showType: true } });
+    setOwnedObjects(owned.data.flatMap(object =>
+      object.data?.type ? [{ objectId: object.data.objectId, objectType: object.data.type }] : []
+    ));
+  }, [client, signingAddress]);
+
+  useEffect(() => {
+    refreshOwnedObjects().catch(error => console.error('Error loading owned objects:', error));
+  }, [refreshOwnedObjects]);
+
+  const fn = functions.find(f => fnKey(f) === selected);
+
+  // Fresh inputs per function; the gas coin is the usual way to pay
+  useEffect(() => {
+    setTypeArguments(fn ? Array(fn.typeParameters).fill('') : []);
+    setValues(fn ? fn.params.map(p => (isSuiCoin(p) ? GAS_COIN : '')) : []);
+    setCallError(null);
+  }, [fn]);
+
+  const objects = useMemo(() => {
+    const byId = new Map<string, ObjectOption>();
+    for (const object of [...createdObjects, ...ownedObjects]) {
+      byId.set(object.objectId, { objectId: object.objectId, objectType: object.objectType });
+    }
+    return [...byId.values()];
+  }, [createdObjects, ownedObjects]);
+
+  const handleExecute = async () => {
+    if (!fn) return;
+
+    setIsExecuting(true);
+    setCallError(null);
+    setResult(null);
+
+    try {
+      const tx = new Transaction();
+      addConsoleCall(tx, packageId, fn, typeArguments.map(t => t.trim()), values);
+
+      const response = await fetch('/api/sign-transaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId: signingSessionId, transaction: await tx.toJSON() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to execute transaction');
+      }
+
+      setResult(data);
+      await refreshOwnedObjects();
+    } catch (error) {
+      console.error('Error calling contract:', error);
+      setCallError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const setValue = (index: number, value: string) => {
+    setValues(current => current.map((v, i) => (i === index ? value : v)));
+  };
+
+  if (loadError) {
+    return <p className={`px-4 py-3 text-sm text-red-700 ${className}`}>Failed to load the package ABI: {loadError}</p>;
+  }
+
+  const modules = [...new Set(functions.map(f => f.module))];
+  const status = result?.effects?.status;
+
+  return (
+    <div className={`px-4 py-3 text-sm ${className}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md bg-white font-mono text-xs text-gray-700"
+        >
+          {functions.length === 0 && <option value="">Loading functions...</option>}
+          {modules.map(module => (
+            <optgroup key={module} label={module}>
+              {functions.filter(f => f.module === module).map(f => (
+                <option key={fnKey(f)} value={fnKey(f)}>
+                  {f.name}{f.isEntry ? ' (entry)' : ''}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          onClick={handleExecute}
+          disabled={!fn || isExecuting}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isExecuting ? (
+            <>
+              <BeatLoader size={6} color="white" />
+              <span>Executing...</span>
+            </>
+          ) : 'Execute'}
+        </button>
+      </div>
+
+      {fn && (
+        <div className="space-y-2 mb-3">
+          {typeArguments.map((typeArgument, i) => (
+            <label key={`T${i}`} className="flex items-center gap-2">
+              <span className="w-48 shrink-0 font-mono text-xs text-gray-600">T{i}</span>
+              <input
+                value={typeArgument}
+                onChange={(e) => setTypeArguments(current => current.map((t, j) => (j === i ? e.target.value : t)))}
+                placeholder="Type argument, e.g. 0x2::sui::SUI"
+                className="flex-1 px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+              />
+            </label>
+          ))}
+          {fn.params.map((param, i) => {
+            const listId = `console-${fn.module}-${fn.name}-${i}`;
+            const candidates = param.input.kind === 'object' ? objectCandidates(param, objects) : [];
+            return (
+              <label key={i} className="flex items-center gap-2">
+                <span className="w-48 shrink-0 font-mono text-xs text-gray-600 truncate" title={param.label}>
+                  {param.label}
+                </span>
+                <input
+                  value={values[i] ?? ''}
+                  onChange={(e) => setValue(i, e.target.value)}
+                  list={param.input.kind === 'object' ? listId : undefined}
+                  placeholder={param.input.kind === 'object'
+                    ? `Object ID${isSuiCoin(param) ? ` or "${GAS_COIN}"` : ''}`
+                    : param.input.type.startsWith('vector') ? 'Comma-separated values or a JSON array' : param.input.type}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+                />
+                {param.input.kind === 'object' && (
+                  <datalist id={listId}>
+                    {isSuiCoin(param) && <option value={GAS_COIN}>Gas coin</option>}
+                    {candidates.map(o => (
+                      <option key={o.objectId} value={o.objectId}>{o.objectType.split('::').slice(1).join('::')}</option>
+                    ))}
+                  </datalist>
+                )}
+              </label>
+            );
+          })}
+          {fn.returns.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Returns <code>{fn.returns.join(', ')}</code>; values that can&apos;t be dropped make the call fail
+              unless the function transfers them itself.
+            </p>
+          )}
+        </div>
+      )}
+
+      {callError && <p className="mb-3 font-mono text-xs text-red-700">{callError}</p>}
+
+      {result && (
+        <div className="space-y-2 text-xs">
+          <p className={status?.status === 'success' ? 'text-green-700' : 'text-red-700'}>
+            {status?.status === 'success' ? 'Success' : `Failed: ${status?.error}`}
+            {' · '}<code>{result.digest}</code>
+            {result.effects && (
+              <> · gas {Number(result.effects.gasUsed.computationCost) + Number(result.effects.gasUsed.storageCost) - Number(result.effects.gasUsed.storageRebate)} MIST</>
+            )}
+          </p>
+          {result.events && result.events.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-1">Events</h4>
+              <ul className="space-y-1">
+                {result.events.map((event, i) => (
+                  <li key={i}>
+                    <span className="font-mono text-gray-600">{event.type.split('::').slice(1).join('::')}</span>
+                    <pre className="mt-0.5 p-2 bg-gray-50 rounded overflow-x-auto">{JSON.stringify(event.parsedJson, null, 2)}</pre>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.objectChanges && result.objectChanges.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-1">Object changes</h4>
+              <ul className="space-y-0.5 font-mono">
+                {result.objectChanges.map((change, i) => (
+                  <li key={i}>
+                    <span className="text-gray-500">{change.type}</span>{' '}
+                    {'objectType' in change && <span>{change.objectType.split('::').slice(1).join('::')} </span>}
+                    {'objectId' in change && <span className="text-gray-600">{change.objectId}</span>}
+                    {change.type === 'published' && <span className="text-gray-600">{change.packageId}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { CreatedObject, summarizeObjects, typeKey } from '@/lib/deployedObjects';
+
+interface DeployedObjectsProps {
+  objects: CreatedObject[];
+  className?: string;
+}
+
+function ObjectRow({ object }: { object: CreatedObject }) {
+  return (
+    <li className="flex flex-wrap items-baseline gap-x-2">
+      <span className="font-medium" title={object.objectType}>{typeKey(object.objectType)}</span>
+      <code className="text-xs bg-green-100 px-1.5 py-0.5 rounded break-all">{object.objectId}</code>
+    </li>
+  );
+}
+
+function ObjectGroup({ title, objects }: { title: string; objects: CreatedObject[] }) {
+  if (objects.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-green-800 mt-2 mb-1">{title}</h4>
+      <ul className="space-y-1">
+        {objects.map(object => <ObjectRow key={object.objectId} object={object} />)}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Objects created at publish, grouped the way the preview and console use them.
+ */
+export default function DeployedObjects({ objects, className = '' }: DeployedObjectsProps) {
+  const summary = summarizeObjects(objects);
+
+  return (
+    <div className={`text-sm text-green-700 ${className}`}>
+      <ObjectGroup title="Shared objects" objects={Object.values(summary.shared).flat()} />
+      <ObjectGroup title="Owned objects" objects={Object.values(summary.owned).flat()} />
+      <ObjectGroup title="Immutable objects" objects={Object.values(summary.immutable).flat()} />
+      <ObjectGroup title="UpgradeCap" objects={summary.upgradeCap ? [summary.upgradeCap] : []} />
+      <ObjectGroup title="Publisher" objects={summary.publishers} />
+      <ObjectGroup title="Display" objects={summary.displays} />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import type { MoveDiagnostic } from '@/lib/moveBuild';
+
+interface DiagnosticsListProps {
+  diagnostics: MoveDiagnostic[];
+  className?: string;
+}
+
+export default function DiagnosticsList({ diagnostics, className = '' }: DiagnosticsListProps) {
+  if (diagnostics.length === 0) {
+    return <p className={`text-xs text-gray-500 ${className}`}>No compiler diagnostics.</p>;
+  }
+
+  return (
+    <ul className={`space-y-1 font-mono text-xs ${className}`}>
+      {diagnostics.map((d, i) => (
+        <li
+          key={i}
+          className={d.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}
+        >
+          <span className="font-semibold">
+            {d.severity}{d.code && `[${d.code}]`}
+          </span>
+          {d.file && (
+            <span className="text-gray-500"> {d.file}:{d.line}:{d.column}</span>
+          )}
+          <span>: {d.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useMemo } from 'react';
+import { diffHunks, diffLines } from '@/lib/lineDiff';
+import type { FileChange } from '@/lib/versionHistory';
+
+interface FileDiffReviewProps {
+  changes: FileChange[];
+  // Paths whose change will be applied
+  accepted: Set<string>;
+  onToggle: (path: string) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  className?: string;
+}
+
+const KIND_STYLES: Record<FileChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  modified: 'bg-blue-100 text-blue-800',
+  deleted: 'bg-red-100 text-red-800',
+};
+
+const LINE_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+function FileDiff({ change }: { change: FileChange }) {
+  const hunks = useMemo(() => diffHunks(diffLines(change.before, change.after)), [change]);
+
+  return (
+    <div className="overflow-x-auto font-mono text-xs">
+      {hunks.map((hunk, i) => (
+        <table key={i} className="w-full border-t border-gray-100 first:border-t-0">
+          <tbody>
+            {hunk.map((line, j) => (
+              <tr key={j} className={LINE_STYLES[line.kind]}>
+                <td className="w-10 px-1 text-right text-gray-400 select-none">{line.oldLine ?? ''}</td>
+                <td className="w-10 px-1 text-right text-gray-400 select-none">{line.newLine ?? ''}</td>
+                <td className="whitespace-pre pl-2 pr-4">{LINE_MARKERS[line.kind]} {line.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Shows what a refinement changes, file by file, and lets the user pick which
+ * changes to keep before applying them to the editor.
+ */
+export default function FileDiffReview({
+  changes,
+  accepted,
+  onToggle,
+  onApply,
+  onDiscard,
+  className = ''
+}: FileDiffReviewProps) {
+  return (
+    <div className={`bg-white rounded-lg shadow overflow-hidden ${className}`}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-sm font-medium text-gray-900">
+          Review changes ({accepted.size} of {changes.length} file(s) accepted)
+        </h3>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={onDiscard}
+            className="px-3 py-1.5 border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Discard
+          </button>
+          <button
+            onClick={onApply}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+
+      {changes.length === 0 && (
+        <p className="px-4 py-3 text-xs text-gray-500">The model returned the same files.</p>
+      )}
+
+      {changes.map(change => {
+        const isAccepted = accepted.has(change.path);
+        return (
+          <div key={change.path} className="border-b border-gray-200 last:border-b-0">
+            <div className="flex items-center justify-between px-4 py-2 bg-gray-50 text-xs">
+              <span className="flex items-center gap-2 font-mono text-gray-700">
+                <span className={`px-1.5 py-0.5 rounded ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+                {change.path}
+              </span>
+              <button
+                onClick={() => onToggle(change.path)}
+                className={`px-2 py-1 rounded border ${isAccepted ? 'border-green-300 bg-green-50 text-green-700' : 'border-red-300 bg-red-50 text-red-700'}`}
+                title={isAccepted ? 'Click to keep the current version of this file' : 'Click to take the new version of this file'}
+              >
+                {isAccepted ? 'Accepted' : 'Rejected'}
+              </button>
+            </div>
+            <div className={`max-h-80 overflow-auto ${isAccepted ? '' : 'opacity-50'}`}>
+              <FileDiff change={change} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
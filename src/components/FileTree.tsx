@@ -0,0 +1,69 @@
+'use client';
+
+interface FileTreeProps {
+  paths: string[];
+  activePath: string;
+  dirtyPaths?: string[];
+  onSelect: (path: string) => void;
+  className?: string;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+}
+
+// Groups flat `dir/sub/file` paths into nested directory nodes
+function buildTree(paths: string[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [] };
+
+  for (const filePath of [...paths].sort()) {
+    let node = root;
+    filePath.split('/').forEach((name, i, parts) => {
+      const nodePath = parts.slice(0, i + 1).join('/');
+      let child = node.children.find(c => c.path === nodePath);
+      if (!child) {
+        child = { name, path: nodePath, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+
+  return root.children;
+}
+
+export default function FileTree({ paths, activePath, dirtyPaths = [], onSelect, className = '' }: FileTreeProps) {
+  const renderNodes = (nodes: TreeNode[], depth: number) => (
+    <ul>
+      {nodes.map(node => (
+        <li key={node.path}>
+          {node.children.length > 0 ? (
+            <>
+              <div
+                className="py-1 text-xs font-semibold text-gray-500 uppercase tracking-wide"
+                style={{ paddingLeft: `${depth * 12 + 12}px` }}
+              >
+                {node.name}
+              </div>
+              {renderNodes(node.children, depth + 1)}
+            </>
+          ) : (
+            <button
+              onClick={() => onSelect(node.path)}
+              className={`w-full text-left py-1 text-sm font-mono truncate ${node.path === activePath ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'}`}
+              style={{ paddingLeft: `${depth * 12 + 12}px` }}
+              title={node.path}
+            >
+              {node.name}
+              {dirtyPaths.includes(node.path) && <span className="ml-1 text-orange-500">●</span>}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return <nav className={`py-2 ${className}`}>{renderNodes(buildTree(paths), 0)}</nav>;
+}
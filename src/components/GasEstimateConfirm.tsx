@@ -0,0 +1,91 @@
+'use client';
+
+import DeployedObjects from '@/components/DeployedObjects';
+import type { CreatedObject } from '@/lib/deployedObjects';
+import type { GasEstimate } from '@/lib/gasEstimate';
+import { NETWORKS, SuiNetwork } from '@/lib/networks';
+
+// The /api/deploy-contract response for a dry run
+export interface DeployEstimate {
+  network: SuiNetwork;
+  estimate: GasEstimate;
+  createdObjects: CreatedObject[];
+  isUsingMasterWallet: boolean;
+}
+
+interface GasEstimateConfirmProps {
+  estimate: DeployEstimate;
+  isDeploying: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+const MIST_PER_SUI = 1_000_000_000;
+
+function formatSui(mist: string) {
+  return `${(Number(mist) / MIST_PER_SUI).toLocaleString(undefined, { maximumFractionDigits: 6 })} SUI`;
+}
+
+function CostRow({ label, mist, title }: { label: string; mist: string; title?: string }) {
+  return (
+    <tr title={title}>
+      <td className="py-0.5 pr-4 text-gray-600">{label}</td>
+      <td className="py-0.5 text-right font-mono">{formatSui(mist)}</td>
+    </tr>
+  );
+}
+
+/**
+ * What a publish will cost and create, per the dry run, with the choice to go
+ * ahead.
+ */
+export default function GasEstimateConfirm({
+  estimate: { network, estimate, createdObjects, isUsingMasterWallet },
+  isDeploying,
+  onConfirm,
+  onCancel,
+  className = ''
+}: GasEstimateConfirmProps) {
+  return (
+    <div className={`p-4 bg-blue-50 border border-blue-200 rounded-md text-sm ${className}`}>
+      <h3 className="font-medium text-blue-900 mb-2">Publish to {NETWORKS[network].label}?</h3>
+      <table className="mb-2">
+        <tbody>
+          <CostRow label="Computation" mist={estimate.computationCost} />
+          <CostRow label="Storage" mist={estimate.storageCost} />
+          <CostRow label="Storage rebate" mist={`-${estimate.storageRebate}`} title="Paid back for storage the publish frees" />
+          <tr className="border-t border-blue-200 font-medium">
+            <td className="py-0.5 pr-4">Net cost</td>
+            <td className="py-0.5 text-right font-mono">{formatSui(estimate.netCost)}</td>
+          </tr>
+          <CostRow
+            label="Gas budget"
+            mist={estimate.gasBudget}
+            title="Computation and storage plus a margin; only the actual cost is charged"
+          />
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-600 mb-2">
+        Paid by {isUsingMasterWallet ? 'the studio wallet' : 'a new burner wallet funded from the faucet'}.
+      </p>
+      <DeployedObjects objects={createdObjects} className="mb-3" />
+      <div className="flex gap-2">
+        <button
+          onClick={onConfirm}
+          disabled={isDeploying}
+          className="px-4 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          Confirm and deploy
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isDeploying}
+          className="px-4 py-1.5 border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
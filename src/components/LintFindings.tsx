@@ -0,0 +1,38 @@
+'use client';
+
+import type { LintSeverity, MoveLintFinding } from '@/lib/moveLint';
+
+interface LintFindingsProps {
+  findings: MoveLintFinding[];
+  // Prefix each finding with its file, for lists that span the package
+  showFile?: boolean;
+  className?: string;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+export default function LintFindings({ findings, showFile = false, className = '' }: LintFindingsProps) {
+  if (findings.length === 0) {
+    return <p className={`text-xs text-gray-500 ${className}`}>No lint findings.</p>;
+  }
+
+  return (
+    <ul className={`space-y-1 text-xs ${className}`}>
+      {findings.map((finding, i) => (
+        <li key={i} className="flex items-start gap-2">
+          <span className={`shrink-0 px-1.5 py-0.5 rounded ${SEVERITY_STYLES[finding.severity]}`}>
+            {finding.severity}
+          </span>
+          <span className="shrink-0 font-mono text-gray-500">
+            {showFile ? `${finding.file}:${finding.line}` : `line ${finding.line}`}
+          </span>
+          <span className="text-gray-800" title={finding.rule}>{finding.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
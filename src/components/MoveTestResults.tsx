@@ -0,0 +1,135 @@
+'use client';
+
+import { BeatLoader } from 'react-spinners';
+import DiagnosticsList from '@/components/DiagnosticsList';
+import type { MoveDiagnostic } from '@/lib/moveBuild';
+import type { MoveTestCase } from '@/lib/moveTest';
+
+// The /api/test-contract response
+export interface MoveTestRun {
+  success: boolean;
+  tests: MoveTestCase[];
+  errors: MoveDiagnostic[];
+  warnings: MoveDiagnostic[];
+}
+
+interface MoveTestResultsProps {
+  result: MoveTestRun | null;
+  isRunning: boolean;
+  onRun: () => void;
+  // Asks the generator to fix the failures; missing when there is no version to refine
+  onFix?: () => void;
+  isFixing: boolean;
+  // Jumps to a failure's location, by package-relative path
+  onOpenFile: (file: string) => void;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<MoveTestCase['status'], string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800',
+  timeout: 'bg-yellow-100 text-yellow-800',
+};
+
+// `temp_contract::counter_tests::test_reset` reads better as `counter_tests::test_reset`
+function shortName(name: string) {
+  return name.split('::').slice(1).join('::') || name;
+}
+
+/**
+ * Runs the package's `#[test]` functions and lists each one's outcome.
+ */
+export default function MoveTestResults({
+  result,
+  isRunning,
+  onRun,
+  onFix,
+  isFixing,
+  onOpenFile,
+  className = ''
+}: MoveTestResultsProps) {
+  const failed = result ? result.tests.filter(t => t.status !== 'pass').length : 0;
+  const canFix = result && !result.success && onFix;
+
+  return (
+    <div className={`px-4 py-3 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <p className={`text-sm font-medium ${!result ? 'text-gray-700' : result.success ? 'text-green-700' : 'text-red-700'}`}>
+          {!result
+            ? 'Run the Move unit tests in the package'
+            : result.errors.length > 0
+              ? 'The package or its tests failed to compile'
+              : result.tests.length === 0
+                ? 'No tests found; add #[test] functions under tests/'
+                : `${result.tests.length - failed} of ${result.tests.length} test(s) passed`}
+        </p>
+        <div className="flex gap-2 text-sm">
+          {canFix && (
+            <button
+              onClick={onFix}
+              disabled={isFixing || isRunning}
+              className="px-3 py-1.5 border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              title="Ask the generator for a change that makes the tests pass"
+            >
+              Fix with AI
+            </button>
+          )}
+          <button
+            onClick={onRun}
+            disabled={isRunning}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isRunning ? (
+              <>
+                <BeatLoader size={6} color="white" />
+                <span>Running...</span>
+              </>
+            ) : result ? 'Run again' : 'Run Tests'}
+          </button>
+        </div>
+      </div>
+
+      {result && result.errors.length > 0 && (
+        <DiagnosticsList diagnostics={result.errors} className="mb-3" />
+      )}
+
+      {result && result.tests.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">Status</th>
+              <th className="py-1 pr-2 font-medium">Test</th>
+              <th className="py-1 pr-2 font-medium text-right">Gas</th>
+              <th className="py-1 font-medium">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.tests.map(test => (
+              <tr key={test.name} className="border-b border-gray-100 align-top">
+                <td className="py-1.5 pr-2">
+                  <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[test.status]}`}>{test.status}</span>
+                </td>
+                <td className="py-1.5 pr-2 font-mono" title={test.name}>{shortName(test.name)}</td>
+                <td className="py-1.5 pr-2 text-right text-gray-600">{test.gasUsed?.toLocaleString() ?? '—'}</td>
+                <td className="py-1.5 text-gray-700">
+                  {test.abortCode !== null && (
+                    <span className="mr-2 font-mono text-red-700">abort {test.abortCode}</span>
+                  )}
+                  {test.message}
+                  {test.file && (
+                    <button
+                      onClick={() => onOpenFile(test.file!)}
+                      className="ml-2 font-mono text-blue-600 hover:text-blue-800"
+                    >
+                      {test.file}:{test.line}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
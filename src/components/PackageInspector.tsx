@@ -0,0 +1,309 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SuiClient, SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { typeKey, type CreatedObject } from '@/lib/deployedObjects';
+import { createMoveDecoder } from '@/lib/moveDecode';
+import { explorerUrl, NETWORKS, SuiNetwork } from '@/lib/networks';
+
+interface PackageInspectorProps {
+  packageId: string;
+  network: SuiNetwork;
+  // Objects the publish created; more can be added by ID
+  createdObjects: CreatedObject[];
+  className?: string;
+}
+
+interface InspectedObject {
+  objectId: string;
+  objectType: string | null;
+  version: string | null;
+  fields: unknown;
+  error: string | null;
+  // When the version last changed, to highlight fresh updates
+  changedAt: number | null;
+}
+
+type InspectorTab = 'objects' | 'events' | 'timeline';
+
+const POLL_INTERVAL_MS = 5000;
+const TIMELINE_LIMIT = 25;
+// How long an updated object stays highlighted
+const HIGHLIGHT_MS = 3000;
+
+const TRANSACTION_OPTIONS = { showInput: true, showEffects: true, showEvents: true } as const;
+
+// `module::function` for each move call in a transaction
+function calledFunctions(tx: SuiTransactionBlockResponse): string[] {
+  const data = tx.transaction?.data.transaction;
+  if (data?.kind !== 'ProgrammableTransaction') return [];
+  return data.transactions.flatMap(command =>
+    'MoveCall' in command ? [`${command.MoveCall.module}::${command.MoveCall.function}`] : []
+  );
+}
+
+function formatTime(timestampMs: string | null | undefined) {
+  return timestampMs ? new Date(Number(timestampMs)).toLocaleTimeString() : '—';
+}
+
+/**
+ * Decoded fields of the package's objects, the events it emits and the
+ * transactions that call it, polled while the panel is open.
+ */
+export default function PackageInspector({
+  packageId,
+  network,
+  createdObjects,
+  className = ''
+}: PackageInspectorProps) {
+  const client = useMemo(() => new SuiClient({ url: NETWORKS[network].rpcUrl }), [network]);
+  const decoder = useMemo(() => createMoveDecoder(client), [client]);
+  const [tab, setTab] = useState<InspectorTab>('objects');
+  const [extraObjectIds, setExtraObjectIds] = useState<string[]>([]);
+  const [newObjectId, setNewObjectId] = useState('');
+  const [objects, setObjects] = useState<Record<string, InspectedObject>>({});
+  // What the last poll saw, so the next one only decodes objects that changed
+  const objectsRef = useRef(objects);
+  useEffect(() => {
+    objectsRef.current = objects;
+  }, [objects]);
+  const [transactions, setTransactions] = useState<SuiTransactionBlockResponse[]>([]);
+  const [publishTransaction, setPublishTransaction] = useState<SuiTransactionBlockResponse | null>(null);
+  const [tick, setTick] = useState(0);
+  const [pollError, setPollError] = useState<string | null>(null);
+
+  const objectIds = useMemo(
+    () => [...new Set([...createdObjects.map(o => o.objectId), ...extraObjectIds])],
+    [createdObjects, extraObjectIds]
+  );
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The publish is found through the package's previous transaction; it runs
+  // every `init`, so its events start the timeline
+  useEffect(() => {
+    let cancelled = false;
+
+    client.getObject({ id: packageId, options: { showPreviousTransaction: true } })
+      .then(pkg => pkg.data?.previousTransaction
+        ? client.getTransactionBlock({ digest: pkg.data.previousTransaction, options: TRANSACTION_OPTIONS })
+        : null)
+      .then(tx => {
+        if (!cancelled) setPublishTransaction(tx);
+      })
+      .catch(error => console.error('Error loading publish transaction:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, packageId]);
+
+  // Objects are re-decoded only when their version moves
+  useEffect(() => {
+    if (objectIds.length === 0) return;
+    let cancelled = false;
+
+    client.multiGetObjects({ ids: objectIds, options: { showType: true, showBcs: true } })
+      .then(async responses => {
+        const updates: Record<string, InspectedObject> = {};
+        for (const [i, response] of responses.entries()) {
+          const objectId = objectIds[i];
+          const previous = objectsRef.current[objectId];
+          const data = response.data;
+
+          if (!data) {
+            updates[objectId] = {
+              objectId,
+              objectType: previous?.objectType ?? null,
+              version: null,
+              fields: null,
+              error: response.error?.code === 'deleted' ? 'Deleted' : response.error?.code || 'Not found',
+              changedAt: previous?.version ? Date.now() : previous?.changedAt ?? null,
+            };
+            continue;
+          }
+          if (previous && previous.version === data.version) continue;
+
+          let fields: unknown = null;
+          let error: string | null = null;
+          try {
+            if (data.bcs?.dataType !== 'moveObject') throw new Error('Not a Move object');
+            fields = await decoder.decode(data.bcs.type, data.bcs.bcsBytes);
+          } catch (decodeError) {
+            error = decodeError instanceof Error ? decodeError.message : String(decodeError);
+          }
+          updates[objectId] = {
+            objectId,
+            objectType: data.type ?? null,
+            version: data.version,
+            fields,
+            error,
+            changedAt: previous ? Date.now() : null,
+          };
+        }
+        if (!cancelled && Object.keys(updates).length > 0) {
+          setObjects(current => ({ ...current, ...updates }));
+        }
+      })
+      .catch(error => {
+        if (!cancelled) setPollError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, decoder, objectIds, tick]);
+
+  // Transactions that call into the package, newest first
+  useEffect(() => {
+    let cancelled = false;
+
+    client.queryTransactionBlocks({
+      filter: { MoveFunction: { package: packageId } },
+      options: TRANSACTION_OPTIONS,
+      order: 'descending',
+      limit: TIMELINE_LIMIT,
+    })
+      .then(page => {
+        if (cancelled) return;
+        setTransactions(page.data);
+        setPollError(null);
+      })
+      .catch(error => {
+        if (!cancelled) setPollError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, packageId, tick]);
+
+  const timeline = publishTransaction ? [...transactions, publishTransaction] : transactions;
+  // Events the package's own modules emitted, newest first
+  const events: SuiEvent[] = timeline.flatMap(tx =>
+    (tx.events || []).filter(event => event.packageId === packageId || event.type.startsWith(`${packageId}::`))
+  );
+
+  const handleAddObject = () => {
+    const objectId = newObjectId.trim();
+    if (!/^0x[0-9a-fA-F]+$/.test(objectId)) return;
+    setExtraObjectIds(ids => (ids.includes(objectId) ? ids : [...ids, objectId]));
+    setNewObjectId('');
+  };
+
+  const tabClass = (t: InspectorTab) =>
+    `px-3 py-1.5 text-xs font-medium rounded-md ${tab === t ? 'bg-gray-200 text-gray-900' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className={`px-4 py-3 text-sm ${className}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <button onClick={() => setTab('objects')} className={tabClass('objects')}>Objects ({objectIds.length})</button>
+        <button onClick={() => setTab('events')} className={tabClass('events')}>Events ({events.length})</button>
+        <button onClick={() => setTab('timeline')} className={tabClass('timeline')}>Timeline ({timeline.length})</button>
+        <span className="ml-auto text-xs text-gray-400">Refreshes every {POLL_INTERVAL_MS / 1000}s</span>
+      </div>
+
+      {pollError && <p className="mb-2 text-xs text-red-700">Refresh failed: {pollError}</p>}
+
+      {tab === 'objects' && (
+        <div className="space-y-2">
+          {objectIds.map(objectId => {
+            const object = objects[objectId];
+            const isFresh = object?.changedAt && Date.now() - object.changedAt < HIGHLIGHT_MS;
+            return (
+              <div
+                key={objectId}
+                className={`p-2 border rounded-md transition-colors ${isFresh ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200'}`}
+              >
+                <div className="flex items-baseline gap-2 text-xs">
+                  <span className="font-medium" title={object?.objectType || undefined}>
+                    {object?.objectType ? typeKey(object.objectType) : 'Loading...'}
+                  </span>
+                  <a
+                    href={explorerUrl(network, objectId)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-blue-600 hover:text-blue-800 break-all"
+                  >
+                    {objectId}
+                  </a>
+                  {object?.version && <span className="ml-auto shrink-0 text-gray-500">v{object.version}</span>}
+                </div>
+                {object?.error && <p className="mt-1 text-xs text-red-700">{object.error}</p>}
+                {object?.fields !== null && object?.fields !== undefined && (
+                  <pre className="mt-1 p-2 bg-gray-50 rounded overflow-x-auto text-xs">{JSON.stringify(object.fields, null, 2)}</pre>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex gap-2">
+            <input
+              value={newObjectId}
+              onChange={(e) => setNewObjectId(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddObject()}
+              placeholder="Inspect another object by ID"
+              className="flex-1 px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+            />
+            <button
+              onClick={handleAddObject}
+              className="px-3 py-1 text-xs border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tab === 'events' && (
+        events.length === 0 ? (
+          <p className="text-xs text-gray-500">No events yet.</p>
+        ) : (
+          <ul className="space-y-2 text-xs">
+            {events.map(event => (
+              <li key={`${event.id.txDigest}:${event.id.eventSeq}`}>
+                <div className="flex items-baseline gap-2">
+                  <span className="font-mono font-medium">{event.type.split('::').slice(1).join('::')}</span>
+                  <span className="text-gray-500">{formatTime(event.timestampMs)}</span>
+                  <span className="ml-auto font-mono text-gray-400">{event.id.txDigest.slice(0, 10)}…</span>
+                </div>
+                <pre className="mt-0.5 p-2 bg-gray-50 rounded overflow-x-auto">{JSON.stringify(event.parsedJson, null, 2)}</pre>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {tab === 'timeline' && (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-3 text-xs">
+          {timeline.map(tx => {
+            const status = tx.effects?.status;
+            const calls = calledFunctions(tx);
+            return (
+              <li key={tx.digest} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1 h-3 w-3 rounded-full border border-white ${status?.status === 'success' ? 'bg-green-500' : 'bg-red-500'}`}
+                />
+                <div className="flex items-baseline gap-2">
+                  <span className="font-medium">
+                    {tx === publishTransaction ? 'Publish' : calls.join(', ') || 'Transaction'}
+                  </span>
+                  <span className="text-gray-500">{formatTime(tx.timestampMs)}</span>
+                  <code className="ml-auto text-gray-400">{tx.digest.slice(0, 10)}…</code>
+                </div>
+                <p className="text-gray-600">
+                  {status?.status === 'success' ? '' : `Failed: ${status?.error} · `}
+                  {tx.events?.length || 0} event(s)
+                  {tx.effects && ` · ${(tx.effects.created?.length || 0) + (tx.effects.mutated?.length || 0)} object(s) created or changed`}
+                  {tx.transaction && <> · sender <code>{tx.transaction.data.sender.slice(0, 10)}…</code></>}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
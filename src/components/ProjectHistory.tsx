@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Deployment, Generation, Project, ProjectSummary } from '@/lib/projects';
+
+interface ProjectHistoryProps {
+  activeProjectId: string | null;
+  // Bump to make the list re-fetch, e.g. after a generation or deployment
+  refreshKey: number;
+  onOpenGeneration: (project: Project, generation: Generation) => void;
+  onOpenDeployment: (project: Project, deployment: Deployment) => void;
+  className?: string;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString();
+}
+
+export default function ProjectHistory({
+  activeProjectId,
+  refreshKey,
+  onOpenGeneration,
+  onOpenDeployment,
+  className = ''
+}: ProjectHistoryProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [expanded, setExpanded] = useState<Project | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProject = useCallback(async (projectId: string) => {
+    const response = await fetch(`/api/projects/${projectId}`);
+    if (!response.ok) {
+      throw new Error('Failed to load project');
+    }
+    setExpanded(await response.json());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/projects')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load projects');
+        return response.json();
+      })
+      .then(({ projects }) => {
+        if (!cancelled) setProjects(projects);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+
+    // Keep the open project's history current too
+    if (activeProjectId) {
+      loadProject(activeProjectId).catch(err => setError(err.message));
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, activeProjectId, loadProject]);
+
+  const toggleProject = (projectId: string) => {
+    if (expanded?.id === projectId) {
+      setExpanded(null);
+      return;
+    }
+    loadProject(projectId).catch(err => setError(err.message));
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-4 ${className}`}>
+      <h3 className="text-sm font-medium text-gray-900 mb-3">Projects</h3>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+      {projects.length === 0 && !error && (
+        <p className="text-xs text-gray-500">Generated DApps will be saved here.</p>
+      )}
+      <ul className="space-y-1">
+        {projects.map(project => (
+          <li key={project.id}>
+            <button
+              onClick={() => toggleProject(project.id)}
+              className={`w-full text-left px-2 py-1.5 rounded text-sm ${project.id === activeProjectId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              <span className="font-medium">{project.name}</span>
+              <span className="block text-xs text-gray-500">
+                {project.generationCount} generation(s), {project.deploymentCount} deployment(s) · {formatTime(project.updatedAt)}
+              </span>
+            </button>
+
+            {expanded?.id === project.id && (
+              <div className="ml-2 mt-1 mb-2 border-l border-gray-200 pl-3 space-y-1 text-xs">
+                {[...expanded.deployments].reverse().map(deployment => (
+                  <div key={deployment.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-gray-700" title={deployment.packageId}>
+                      {deployment.upgradedFrom ? '⬆️' : '🚀'} {deployment.network} · {deployment.packageId.slice(0, 10)}…{deployment.version > 1 && ` v${deployment.version}`} · {formatTime(deployment.createdAt)}
+                    </span>
+                    <button
+                      onClick={() => onOpenDeployment(expanded, deployment)}
+                      className="text-blue-600 hover:text-blue-800 shrink-0"
+                    >
+                      Open
+                    </button>
+                  </div>
+                ))}
+                {[...expanded.generations].reverse().map(generation => (
+                  <div key={generation.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-gray-700" title={generation.prompt}>
+                      {generation.parentId ? '💬' : generation.templateId ? '📦' : '✨'} {generation.prompt} · {formatTime(generation.createdAt)}
+                    </span>
+                    <button
+                      onClick={() => onOpenGeneration(expanded, generation)}
+                      className="text-blue-600 hover:text-blue-800 shrink-0"
+                    >
+                      Open
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BeatLoader } from 'react-spinners';
+import type { Generation, Project } from '@/lib/projects';
+import { generationChain } from '@/lib/versionHistory';
+
+interface RefinementChatProps {
+  projectId: string;
+  // Version the editor was loaded from
+  generationId: string;
+  // Bump to re-fetch the versions, e.g. after a refinement
+  refreshKey: number;
+  isGenerating: boolean;
+  generationStatus: string;
+  onSend: (instruction: string) => void;
+  onRestore: (generation: Generation) => void;
+  className?: string;
+}
+
+/**
+ * The current version's chain, plus the newest versions refined from it, so
+ * after rolling back the later versions can still be restored.
+ */
+function versionsAround(generations: Generation[], generationId: string): Generation[] {
+  const versions = generationChain(generations, generationId);
+  if (versions.length === 0) return versions;
+
+  for (;;) {
+    const last = versions[versions.length - 1];
+    const children = generations.filter(g => g.parentId === last.id && !versions.includes(g));
+    if (children.length === 0) return versions;
+    versions.push(children[children.length - 1]);
+  }
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString();
+}
+
+/**
+ * Follow-up instructions for the open DApp. Each instruction becomes a new
+ * version; any version in the conversation can be restored.
+ */
+export default function RefinementChat({
+  projectId,
+  generationId,
+  refreshKey,
+  isGenerating,
+  generationStatus,
+  onSend,
+  onRestore,
+  className = ''
+}: RefinementChatProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [instruction, setInstruction] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/projects/${projectId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setProject(data);
+      })
+      .catch(error => console.error('Error loading versions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, refreshKey]);
+
+  const versions = project ? versionsAround(project.generations, generationId) : [];
+
+  const handleSend = () => {
+    if (!instruction.trim() || isGenerating) return;
+    onSend(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-4 ${className}`}>
+      <h3 className="text-sm font-medium text-gray-900 mb-3">Refine</h3>
+
+      <ol className="space-y-2 mb-3 max-h-72 overflow-auto">
+        {versions.map((version, i) => {
+          const isCurrent = version.id === generationId;
+          return (
+            <li key={version.id} className="text-sm">
+              <div className="flex justify-end">
+                <p className="max-w-[80%] px-3 py-1.5 rounded-lg bg-blue-600 text-white">{version.prompt}</p>
+              </div>
+              <div className={`mt-1 flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-xs ${isCurrent ? 'bg-green-50 text-green-800' : 'bg-gray-50 text-gray-600'}`}>
+                <span>
+                  <span className="font-medium">v{i + 1}</span>
+                  {version.metadata && ` · ${version.metadata.dappName}`}
+                  {` · ${Object.keys(version.moveFiles).length} Move file(s) · ${formatTime(version.createdAt)}`}
+                </span>
+                {isCurrent ? (
+                  <span className="shrink-0 font-medium">Current</span>
+                ) : (
+                  <button
+                    onClick={() => onRestore(version)}
+                    disabled={isGenerating}
+                    className="shrink-0 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    title="Load this version into the editor"
+                  >
+                    Restore
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend();
+          }}
+          disabled={isGenerating}
+          placeholder="Describe a change, e.g. add a decrement function"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleSend}
+          disabled={isGenerating || !instruction.trim()}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {isGenerating ? (
+            <span className="flex items-center gap-2">
+              <BeatLoader size={6} color="white" />
+              {generationStatus}
+            </span>
+          ) : 'Send'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Sends the code as it is in the editor, including unsaved edits.
+      </p>
+    </div>
+  );
+}
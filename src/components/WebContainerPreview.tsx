@@ -1,144 +1,84 @@
 // src/components/WebContainerPreview.tsx
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { WebContainer } from '@webcontainer/api';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SuiClient } from '@mysten/sui/client';
 import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import 'xterm/css/xterm.css';
+import { generateContractBindings } from '@/lib/contractBindings';
+import { CreatedObject, fillObjectPlaceholders } from '@/lib/deployedObjects';
+import { NETWORKS, SuiNetwork } from '@/lib/networks';
+import { getPreviewSession, PreviewSession } from '@/lib/previewSession';
+import {
+  CONTRACT_BINDINGS_FILE,
+  FrontendFiles,
+  legacyFrontendError,
+  SigningMode,
+  studioSignerModule,
+} from '@/lib/previewTemplate';
+
+// Stable default so the update effect doesn't re-run on every render
+const NO_OBJECTS: CreatedObject[] = [];
+
+// Right after a publish the fullnode may not have the package yet
+const ABI_FETCH_ATTEMPTS = 4;
+const ABI_RETRY_DELAY_MS = 2000;
+const BINDINGS_ERROR = `Failed to generate ${CONTRACT_BINDINGS_FILE}`;
+
+async function fetchPackageModules(network: SuiNetwork, packageId: string) {
+  const client = new SuiClient({ url: NETWORKS[network].rpcUrl });
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await client.getNormalizedMoveModulesByPackage({ package: packageId });
+    } catch (error) {
+      if (attempt >= ABI_FETCH_ATTEMPTS) throw error;
+      await new Promise(resolve => setTimeout(resolve, ABI_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
 
 interface WebContainerPreviewProps {
-  frontendCode: string;
+  frontendFiles: FrontendFiles;
   packageId: string;
+  // Where the package's types live; differs from `packageId` once upgraded
+  originalPackageId: string;
   objectId: string;
-  privateKey: string;
+  objects?: CreatedObject[];
+  network: SuiNetwork;
+  signingSessionId: string;
+  signingAddress: string;
+  signingMode?: SigningMode;
   className?: string;
 }
 
-// File structure for the WebContainer
-const fileStructure = {
-  'src/App.tsx': (code: string) => code,
-  'src/main.tsx': `import React from 'react';
-import { createRoot } from 'react-dom/client';
-import App from './App';
-import './index.css';
-
-const container = document.getElementById('root');
-const root = createRoot(container!);
-root.render(<App />);`,
-
-  'index.html': `<!DOCTYPE html>
-<html lang="en">
-  <head>
-    <meta charset="UTF-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-    <title>Sui DApp</title>
-  </head>
-  <body>
-    <div id="root"></div>
-    <script type="module" src="/src/main.tsx"></script>
-  </body>
-</html>`,
-
-  'package.json': `{
-  "name": "sui-dapp-preview",
-  "private": true,
-  "version": "0.1.0",
-  "type": "module",
-  "scripts": {
-    "dev": "vite",
-    "build": "tsc && vite build",
-    "preview": "vite preview"
-  },
-  "dependencies": {
-    "react": "^18.2.0",
-    "react-dom": "^18.2.0",
-    "@mysten/sui.js": "^0.54.1"
-  },
-  "devDependencies": {
-    "@types/react": "^18.2.0",
-    "@types/react-dom": "^18.2.0",
-    "@vitejs/plugin-react": "^4.0.0",
-    "typescript": "^5.0.0",
-    "vite": "^5.0.0"
-  }
-}`,
-
-  'vite.config.ts': `import { defineConfig } from 'vite'
-import react from '@vitejs/plugin-react'
-
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    port: 3000,
-    strictPort: true,
-    hmr: {
-      port: 3000,
-    },
-  },
-})`,
-
-  'tsconfig.json': `{
-  "compilerOptions": {
-    "target": "ES2020",
-    "useDefineForClassFields": true,
-    "lib": ["DOM", "DOM.Iterable", "ESNext"],
-    "allowJs": false,
-    "skipLibCheck": true,
-    "esModuleInterop": false,
-    "allowSyntheticDefaultImports": true,
-    "strict": true,
-    "forceConsistentCasingInFileNames": true,
-    "module": "ESNext",
-    "moduleResolution": "Node",
-    "resolveJsonModule": true,
-    "isolatedModules": true,
-    "noEmit": true,
-    "jsx": "react-jsx"
-  },
-  "include": ["src"]
-}`,
-
-  'index.css': `:root {
-  font-family: Inter, system-ui, Avenir, Helvetica, Arial, sans-serif;
-  line-height: 1.5;
-  font-weight: 400;
-  color-scheme: light dark;
-  color: rgba(255, 255, 255, 0.87);
-  background-color: #242424;
-  font-synthesis: none;
-  text-rendering: optimizeLegibility;
-  -webkit-font-smoothing: antialiased;
-  -moz-osx-font-smoothing: grayscale;
-}
-
-body {
-  margin: 0;
-  min-width: 320px;
-  min-height: 100vh;
-}
-
-#root {
-  max-width: 1280px;
-  margin: 0 auto;
-  padding: 2rem;
-  text-align: center;
-}`
-};
-
 export default function WebContainerPreview({ 
-  frontendCode, 
+  frontendFiles, 
   packageId, 
+  originalPackageId,
   objectId, 
-  privateKey,
+  objects = NO_OBJECTS,
+  network,
+  signingSessionId,
+  signingAddress,
+  signingMode = 'burner',
   className = ''
 }: WebContainerPreviewProps) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const terminalRef = useRef<HTMLDivElement>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [webContainer, setWebContainer] = useState<WebContainer | null>(null);
+  const [session, setSession] = useState<PreviewSession | null>(null);
+  const [serverUrl, setServerUrl] = useState<string | null>(null);
   const [terminal, setTerminal] = useState<Terminal | null>(null);
+  // `src/contract.ts`; null while it loads, empty if the ABI couldn't be read
+  const [contractBindings, setContractBindings] = useState<string | null>(null);
+  // The signing mode only matters for the first boot; later changes go through setSigningMode
+  const bootSigningModeRef = useRef(signingMode);
+  // Tail of the preview updates, which run one after another
+  const updateQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Set for frontends the preview can no longer run; they are not written at all
+  const legacyError = useMemo(() => legacyFrontendError(frontendFiles), [frontendFiles]);
 
   // Initialize terminal
   useEffect(() => {
@@ -166,115 +106,119 @@ export default function WebContainerPreview({
     };
   }, []);
 
-  // Handle WebContainer lifecycle
+  // Attach to the shared WebContainer session; it is booted once per page and reused
   useEffect(() => {
-    let mounted = true;
-    let installProcess: any = null;
-    let devProcess: any = null;
+    if (!terminal) return;
+    const output = terminal;
 
-    async function setupWebContainer() {
-      if (!terminal || !iframeRef.current) return;
+    let mounted = true;
+    let detachOutput: (() => void) | null = null;
 
+    async function connect() {
       try {
         setIsLoading(true);
         setError(null);
 
-        // Process the frontend code to replace placeholders
-        const processedCode = frontendCode
-          .replace(/\{\{PACKAGE_ID\}\}/g, packageId)
-          .replace(/\{\{OBJECT_ID\}\}/g, objectId)
-          .replace(/\{\{BURNER_PRIVATE_KEY_HEX\}\}/g, privateKey);
-
-        // Create files in the WebContainer
-        const files = {
-          ...fileStructure,
-          'src/App.tsx': processedCode,
-          'src/global.d.ts': `/// <reference types="vite/client" />`,
-        };
+        const previewSession = await getPreviewSession(bootSigningModeRef.current);
+        if (!mounted) return;
 
-        // Boot the WebContainer
-        const webContainer = await WebContainer.boot();
-        if (!mounted) {
-          await webContainer.teardown();
-          return;
-        }
-
-        setWebContainer(webContainer);
-
-        // Write files to the WebContainer
-        await Promise.all(
-          Object.entries(files).map(async ([path, content]) => {
-            const contentStr = typeof content === 'function' ? content(processedCode) : content;
-            await webContainer.fs.mkdir(path.split('/').slice(0, -1).join('/'), { recursive: true });
-            await webContainer.fs.writeFile(path, contentStr);
-          })
-        );
-
-        // Install dependencies
-        terminal.write('\\x1b[1;33mInstalling dependencies...\\x1b[0m\\r\\n');
-        installProcess = await webContainer.spawn('npm', ['install']);
-        installProcess.output.pipeTo(
-          new WritableStream({
-            write(data) {
-              terminal.write(data);
-            },
-          })
-        );
+        detachOutput = previewSession.attachOutput(data => output.write(data));
+        setSession(previewSession);
 
-        const installExitCode = await installProcess.exit;
-        if (installExitCode !== 0) {
-          throw new Error(`Installation failed with code ${installExitCode}`);
+        const url = await previewSession.serverUrl;
+        if (!mounted) return;
+        if (iframeRef.current) {
+          iframeRef.current.src = url;
         }
-
-        // Start the dev server
-        terminal.write('\\x1b[1;33mStarting dev server...\\x1b[0m\\r\\n');
-        devProcess = await webContainer.spawn('npm', ['run', 'dev']);
-
-        // Forward the output to the terminal
-        devProcess.output.pipeTo(
-          new WritableStream({
-            write(data) {
-              terminal.write(data);
-            },
-          })
-        );
-
-        // Wait for server to be ready
-        webContainer.on('server-ready', (port, url) => {
-          if (!mounted) return;
-          if (iframeRef.current) {
-            iframeRef.current.src = url;
-            terminal.write(`\\x1b[1;32mDev server ready at ${url}\\x1b[0m\\r\\n`);
-            setIsLoading(false);
-          }
-        });
-
+        setServerUrl(url);
+        setIsLoading(false);
       } catch (err) {
         console.error('WebContainer error:', err);
+        if (!mounted) return;
         setError(`Failed to start preview: ${err instanceof Error ? err.message : String(err)}`);
         setIsLoading(false);
       }
     }
 
-    setupWebContainer();
+    connect();
 
-    // Cleanup function
     return () => {
       mounted = false;
-      const cleanup = async () => {
-        if (installProcess) {
-          await installProcess.kill();
-        }
-        if (devProcess) {
-          await devProcess.kill();
-        }
-        if (webContainer) {
-          await webContainer.teardown();
+      detachOutput?.();
+    };
+  }, [terminal]);
+
+  // Typed bindings for the package, from the ABI that is actually on chain
+  useEffect(() => {
+    let cancelled = false;
+    setContractBindings(null);
+    // A failure for the previous package no longer applies
+    setError(current => (current?.startsWith(BINDINGS_ERROR) ? null : current));
+
+    fetchPackageModules(network, packageId)
+      .then(modules => {
+        if (!cancelled) setContractBindings(generateContractBindings(packageId, modules));
+      })
+      .catch(err => {
+        console.error('Failed to generate contract bindings:', err);
+        if (cancelled) return;
+        setContractBindings('');
+        setError(`${BINDINGS_ERROR}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [packageId, network]);
+
+  // Write code changes into the running app for Vite to hot-reload
+  useEffect(() => {
+    // Wait for the bindings so the app's imports resolve on its first load
+    if (!session || contractBindings === null || legacyError) return;
+
+    // Process the frontend code to replace placeholders
+    const processCode = (code: string) => fillObjectPlaceholders(code, objects)
+      .replace(/\{\{PACKAGE_ID\}\}/g, packageId)
+      .replace(/\{\{ORIGINAL_PACKAGE_ID\}\}/g, originalPackageId)
+      .replace(/\{\{OBJECT_ID\}\}/g, objectId)
+      .replace(/\{\{NETWORK\}\}/g, network);
+
+    const update = async () => {
+      await session.setSigningMode(signingMode);
+      // Burner-mode apps sign through the studio proxy; wallet-mode apps use the user's wallet
+      if (signingMode === 'burner') {
+        await session.writeFile(
+          'src/studioSigner.ts',
+          studioSignerModule(`${window.location.origin}/api/sign-transaction`, signingSessionId, signingAddress)
+        );
+      }
+      // Without bindings, drop any left from an earlier package so the app can't call it
+      if (contractBindings) {
+        await session.writeFile(CONTRACT_BINDINGS_FILE, contractBindings);
+      } else {
+        await session.removeFile(CONTRACT_BINDINGS_FILE);
+      }
+      await session.writeFrontendFiles(Object.fromEntries(
+        Object.entries(frontendFiles).map(([filePath, code]) => [filePath, processCode(code)])
+      ));
+    };
+
+    // One update at a time, so an older one can't write or delete files after a
+    // newer one; an update superseded while it waits is skipped
+    let cancelled = false;
+    updateQueueRef.current = updateQueueRef.current
+      .then(() => (cancelled ? undefined : update()))
+      .catch(err => {
+        console.error('Failed to update preview:', err);
+        if (!cancelled) {
+          setError(`Failed to update preview: ${err instanceof Error ? err.message : String(err)}`);
         }
-      };
-      cleanup().catch(console.error);
+      });
+
+    return () => {
+      cancelled = true;
     };
-  }, [frontendCode, packageId, objectId, privateKey, terminal]);
+  }, [session, legacyError, frontendFiles, packageId, originalPackageId, objectId, objects, network, signingSessionId, signingAddress, signingMode, contractBindings]);
 
   return (
     <div className={`flex flex-col h-full ${className}`}>
@@ -284,8 +228,19 @@ export default function WebContainerPreview({
           {isLoading && (
             <span className="ml-2 text-gray-400">Starting...</span>
           )}
-          {error && (
-            <span className="ml-2 text-red-400">Error: {error}</span>
+          {(legacyError || error) && (
+            <span className="ml-2 text-red-400">Error: {legacyError || error}</span>
+          )}
+          {/* Wallet extensions often don't inject into iframes, so offer a top-level tab */}
+          {signingMode === 'wallet' && serverUrl && (
+            <a
+              href={serverUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="float-right text-blue-300 hover:text-blue-200"
+            >
+              Open in new tab to connect a wallet
+            </a>
           )}
         </div>
         
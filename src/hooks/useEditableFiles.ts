@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+
+// Keystrokes closer together than this are undone as a single step
+const HISTORY_COALESCE_MS = 1000;
+const MAX_HISTORY = 200;
+
+interface FileHistory {
+  past: string[];
+  future: string[];
+  lastEditAt: number;
+}
+
+/**
+ * Editable project files with per-file undo/redo and dirty tracking.
+ * `savedFiles` is the last saved snapshot; it is what the preview runs.
+ */
+export function useEditableFiles() {
+  const [files, setFiles] = useState<Record<string, string>>({});
+  const [savedFiles, setSavedFiles] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<Record<string, FileHistory>>({});
+
+  // Replaces everything, e.g. with a fresh generation
+  const load = useCallback((nextFiles: Record<string, string>) => {
+    setFiles(nextFiles);
+    setSavedFiles(nextFiles);
+    setHistory({});
+  }, []);
+
+  const update = useCallback((path: string, content: string) => {
+    const previous = files[path] ?? '';
+    if (previous === content) return;
+
+    const now = Date.now();
+    setHistory(h => {
+      const entry = h[path] || { past: [], future: [], lastEditAt: 0 };
+      const coalesce = now - entry.lastEditAt < HISTORY_COALESCE_MS && entry.past.length > 0;
+      return {
+        ...h,
+        [path]: {
+          past: coalesce ? entry.past : [...entry.past, previous].slice(-MAX_HISTORY),
+          future: [],
+          lastEditAt: now,
+        },
+      };
+    });
+    setFiles(f => ({ ...f, [path]: content }));
+  }, [files]);
+
+  const undo = useCallback((path: string) => {
+    const entry = history[path];
+    if (!entry || entry.past.length === 0) return;
+
+    const previous = entry.past[entry.past.length - 1];
+    setHistory(h => ({
+      ...h,
+      [path]: {
+        past: entry.past.slice(0, -1),
+        future: [files[path] ?? '', ...entry.future],
+        lastEditAt: 0,
+      },
+    }));
+    setFiles(f => ({ ...f, [path]: previous }));
+  }, [files, history]);
+
+  const redo = useCallback((path: string) => {
+    const entry = history[path];
+    if (!entry || entry.future.length === 0) return;
+
+    const next = entry.future[0];
+    setHistory(h => ({
+      ...h,
+      [path]: {
+        past: [...entry.past, files[path] ?? ''],
+        future: entry.future.slice(1),
+        lastEditAt: 0,
+      },
+    }));
+    setFiles(f => ({ ...f, [path]: next }));
+  }, [files, history]);
+
+  const save = useCallback(() => {
+    setSavedFiles(files);
+  }, [files]);
+
+  const revert = useCallback((path: string) => {
+    update(path, savedFiles[path] ?? '');
+  }, [savedFiles, update]);
+
+  const isDirty = (path: string) => files[path] !== savedFiles[path];
+
+  return {
+    files,
+    savedFiles,
+    load,
+    update,
+    undo,
+    redo,
+    save,
+    revert,
+    isDirty,
+    hasUnsavedChanges: Object.keys(files).some(isDirty),
+    canUndo: (path: string) => (history[path]?.past.length ?? 0) > 0,
+    canRedo: (path: string) => (history[path]?.future.length ?? 0) > 0,
+  };
+}
@@ -0,0 +1,245 @@
+import type { SuiMoveNormalizedModules, SuiMoveNormalizedStruct, SuiMoveNormalizedType } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { ConsoleFunction, ConsoleParam, formatType, listCallableFunctions } from './moveAbi';
+
+// How a Move value reaches TypeScript: its type and the expression that
+// converts a raw JSON value (`v`) into it
+interface FieldMapping {
+  tsType: string;
+  convert: (value: string) => string;
+}
+
+// Module names that can't be a `const` name
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof',
+  'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+]);
+
+const PURE_BCS: Record<string, { tsType: string; bcs: string }> = {
+  Bool: { tsType: 'boolean', bcs: 'bcs.bool()' },
+  U8: { tsType: 'number', bcs: 'bcs.u8()' },
+  U16: { tsType: 'number', bcs: 'bcs.u16()' },
+  U32: { tsType: 'number', bcs: 'bcs.u32()' },
+  U64: { tsType: 'bigint | number | string', bcs: 'bcs.u64()' },
+  U128: { tsType: 'bigint | number | string', bcs: 'bcs.u128()' },
+  U256: { tsType: 'bigint | number | string', bcs: 'bcs.u256()' },
+  Address: { tsType: 'string', bcs: 'bcs.Address' },
+};
+
+const pascalCase = (name: string) => name.replace(/(^|_)(\w)/g, (_, __, c: string) => c.toUpperCase());
+
+// `0x2::coin::Coin<T0>` -> `0x2::coin::Coin`
+const baseName = (type: SuiMoveNormalizedType) => formatType(type).replace(/<[\s\S]*$/, '');
+
+function moduleConst(name: string) {
+  return RESERVED_WORDS.has(name) ? `${name}_` : name;
+}
+
+function arrayOf(tsType: string) {
+  return tsType.includes('|') ? `(${tsType})[]` : `${tsType}[]`;
+}
+
+/**
+ * TS type and BCS schema of a pure argument. Only types the console treats
+ * as pure reach here.
+ */
+function pureMapping(type: SuiMoveNormalizedType): { tsType: string; bcs: string } {
+  if (typeof type === 'string') return PURE_BCS[type];
+  if ('Vector' in type) {
+    const inner = pureMapping(type.Vector);
+    return { tsType: arrayOf(inner.tsType), bcs: `bcs.vector(${inner.bcs})` };
+  }
+  if ('Struct' in type) {
+    switch (baseName(type)) {
+      case '0x2::object::ID': return { tsType: 'string', bcs: 'bcs.Address' };
+      case '0x1::option::Option': {
+        const inner = pureMapping(type.Struct.typeArguments[0]);
+        return { tsType: `${inner.tsType} | null`, bcs: `bcs.option(${inner.bcs})` };
+      }
+      default: return { tsType: 'string', bcs: 'bcs.string()' };
+    }
+  }
+  throw new Error(`${formatType(type)} is not a pure type`);
+}
+
+function paramName(param: ConsoleParam, index: number, taken: Set<string>) {
+  let name = `arg${index}`;
+  if (param.input.kind === 'object' && param.input.type) {
+    const struct = param.input.type.replace(/<[\s\S]*$/, '').split('::').pop()!;
+    name = struct.charAt(0).toLowerCase() + struct.slice(1);
+  }
+  if (taken.has(name) || RESERVED_WORDS.has(name)) name = `${name}${index}`;
+  taken.add(name);
+  return name;
+}
+
+function functionBinding(fn: ConsoleFunction): string {
+  const taken = new Set(['tx', 'typeArguments']);
+  const params = ['tx: Transaction'];
+  const args: string[] = [];
+
+  if (fn.typeParameters > 0) {
+    params.push(`typeArguments: [${Array(fn.typeParameters).fill('string').join(', ')}]`);
+  }
+
+  fn.params.forEach((param, i) => {
+    const name = paramName(param, i, taken);
+    if (param.input.kind === 'pure') {
+      const { tsType, bcs } = pureMapping(param.normalized);
+      params.push(`${name}: ${tsType}`);
+      args.push(`tx.pure(${bcs}.serialize(${name}))`);
+    } else if (typeof param.normalized === 'object' && 'Vector' in param.normalized) {
+      // A vector of objects is built in the transaction
+      params.push(`${name}: ObjectInput[]`);
+      args.push(`tx.makeMoveVec({ elements: ${name} })`);
+    } else {
+      params.push(`${name}: ObjectInput`);
+      args.push(`tx.object(${name})`);
+    }
+  });
+
+  const signature = `${fn.name}(${fn.params.map(p => p.label).join(', ')})`
+    + (fn.returns.length > 0 ? `: ${fn.returns.join(', ')}` : '');
+  return `  /** \`${signature}\` */
+  ${fn.name}(${params.join(', ')}) {
+    return tx.moveCall({
+      target: \`\${PACKAGE_ID}::${fn.module}::${fn.name}\`,${fn.typeParameters > 0 ? '\n      typeArguments,' : ''}
+      arguments: [${args.join(', ')}],
+    });
+  },`;
+}
+
+/**
+ * How a struct field's JSON (as returned with `showContent`) maps to TS.
+ * Structs of the package itself decode through their own binding; other
+ * structs and type parameters pass through unchanged.
+ */
+function fieldMapping(type: SuiMoveNormalizedType, localStructs: Map<string, string>): FieldMapping {
+  if (typeof type === 'string') {
+    if (type === 'Bool') return { tsType: 'boolean', convert: v => `Boolean(${v})` };
+    if (type === 'Address') return { tsType: 'string', convert: v => `String(${v})` };
+    if (['U64', 'U128', 'U256'].includes(type)) return { tsType: 'bigint', convert: v => `BigInt(${v})` };
+    return { tsType: 'number', convert: v => `Number(${v})` };
+  }
+  if ('Vector' in type) {
+    const inner = fieldMapping(type.Vector, localStructs);
+    return { tsType: arrayOf(inner.tsType), convert: v => `(${v} as any[]).map((x: any) => ${inner.convert('x')})` };
+  }
+  if ('Struct' in type) {
+    const name = baseName(type);
+    switch (name) {
+      case '0x2::object::UID': return { tsType: 'string', convert: v => `String(${v}.id)` };
+      case '0x2::object::ID':
+      case '0x1::string::String':
+      case '0x1::ascii::String': return { tsType: 'string', convert: v => `String(${v})` };
+      // Balances render as their value
+      case '0x2::balance::Balance': return { tsType: 'bigint', convert: v => `BigInt(${v})` };
+      case '0x1::option::Option': {
+        const inner = fieldMapping(type.Struct.typeArguments[0], localStructs);
+        return { tsType: `${inner.tsType} | null`, convert: v => `(${v} === null ? null : ${inner.convert(v)})` };
+      }
+    }
+    const local = localStructs.get(name);
+    if (local) return { tsType: local, convert: v => `${local}.fromFields(${v}.fields)` };
+  }
+  return { tsType: 'unknown', convert: v => v };
+}
+
+function structBinding(
+  address: string,
+  module: string,
+  name: string,
+  exportName: string,
+  struct: SuiMoveNormalizedStruct,
+  localStructs: Map<string, string>
+): string {
+  const fields = struct.fields.map(field => ({ name: field.name, ...fieldMapping(field.type, localStructs) }));
+  const isObject = struct.abilities.abilities.includes('Key');
+  const typeComment = struct.typeParameters.length > 0 ? '\n  // Without type arguments; the struct is generic' : '';
+
+  const fetch = isObject ? `
+  async fetch(client: SuiClient, id: string): Promise<${exportName}> {
+    const response = await client.getObject({ id, options: { showContent: true } });
+    if (response.data?.content?.dataType !== 'moveObject') {
+      throw new Error(\`\${id} is not a ${module}::${name}\`);
+    }
+    return ${exportName}.fromFields(response.data.content.fields);
+  },` : '';
+
+  return `export interface ${exportName} {
+${fields.map(f => `  ${f.name}: ${f.tsType};`).join('\n')}
+}
+
+export const ${exportName} = {${typeComment}
+  type: '${address}::${module}::${name}',
+  fromFields(fields: any): ${exportName} {
+    return {
+${fields.map(f => `      ${f.name}: ${f.convert(`fields.${f.name}`)},`).join('\n')}
+    };
+  },${fetch}
+};`;
+}
+
+/**
+ * `src/contract.ts` for the preview: per module, one function per callable
+ * function that adds the move call to a transaction, plus an interface and a
+ * field decoder for every struct. Built from the published package's ABI, so
+ * it matches what is actually on chain. `packageIdExpression` is the code
+ * `PACKAGE_ID` is set to; it defaults to the ID as a string literal.
+ */
+export function generateContractBindings(
+  packageId: string,
+  modules: SuiMoveNormalizedModules,
+  packageIdExpression = `'${packageId}'`
+): string {
+  const moduleList = Object.values(modules).sort((a, b) => a.name.localeCompare(b.name));
+  const functions = listCallableFunctions(modules);
+
+  // Struct names are exported bare unless two modules share one
+  const nameCounts = new Map<string, number>();
+  for (const { structs } of moduleList) {
+    for (const name of Object.keys(structs)) {
+      nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+    }
+  }
+  const localStructs = new Map<string, string>();
+  for (const { address, name: moduleName, structs } of moduleList) {
+    for (const name of Object.keys(structs)) {
+      const exportName = nameCounts.get(name)! > 1 ? `${pascalCase(moduleName)}${name}` : name;
+      localStructs.set(`${normalizeSuiAddress(address)}::${moduleName}::${name}`, exportName);
+    }
+  }
+
+  const sections = moduleList.map(module => {
+    const address = normalizeSuiAddress(module.address);
+    const structs = Object.entries(module.structs).map(([name, struct]) =>
+      structBinding(address, module.name, name, localStructs.get(`${address}::${module.name}::${name}`)!, struct, localStructs)
+    );
+    const calls = functions.filter(fn => fn.module === module.name).map(functionBinding);
+
+    return [
+      `// ---- ${module.name} ----`,
+      ...structs,
+      calls.length > 0
+        ? `export const ${moduleConst(module.name)} = {\n${calls.join('\n\n')}\n};`
+        : `export const ${moduleConst(module.name)} = {};`,
+    ].join('\n\n');
+  });
+
+  return `// Generated by Sui Studio from the on-chain ABI of ${packageId}. Do not edit;
+// it is rewritten whenever the package is deployed or upgraded.
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { SuiClient } from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+
+export const PACKAGE_ID: string = ${packageIdExpression};
+
+// An object ID, or an object from earlier in the transaction such as tx.gas
+export type ObjectInput = TransactionObjectArgument | string;
+
+${sections.join('\n\n')}
+`;
+}
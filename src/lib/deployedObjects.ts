@@ -0,0 +1,118 @@
+import type { SuiObjectChange } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+export type ObjectKind = 'shared' | 'owned' | 'immutable' | 'upgradeCap' | 'publisher' | 'display';
+
+export interface CreatedObject {
+  objectId: string;
+  objectType: string;
+  kind: ObjectKind;
+  owner: string | null;   // address or parent object ID for owned objects
+}
+
+export interface ObjectSummary {
+  upgradeCap: CreatedObject | null;
+  publishers: CreatedObject[];
+  displays: CreatedObject[];
+  // Everything else, keyed by full Move type
+  shared: Record<string, CreatedObject[]>;
+  owned: Record<string, CreatedObject[]>;
+  immutable: Record<string, CreatedObject[]>;
+}
+
+// Matches `{{OBJECT_ID:counter::Counter}}`
+const TYPED_PLACEHOLDER_RE = /\{\{OBJECT_ID:(\w+::\w+)\}\}/g;
+
+type CreatedChange = Extract<SuiObjectChange, { type: 'created' }>;
+
+function classify(change: CreatedChange): { kind: ObjectKind; owner: string | null } {
+  const { objectType, owner } = change;
+  const baseType = objectType.replace(/<.*>$/, '');
+
+  if (baseType.endsWith('::package::UpgradeCap')) return { kind: 'upgradeCap', owner: ownerAddress(owner) };
+  if (baseType.endsWith('::package::Publisher')) return { kind: 'publisher', owner: ownerAddress(owner) };
+  if (baseType.endsWith('::display::Display')) return { kind: 'display', owner: ownerAddress(owner) };
+
+  if (owner === 'Immutable') return { kind: 'immutable', owner: null };
+  if ('Shared' in owner) return { kind: 'shared', owner: null };
+  return { kind: 'owned', owner: ownerAddress(owner) };
+}
+
+function ownerAddress(owner: CreatedChange['owner']): string | null {
+  if (owner === 'Immutable') return null;
+  if ('AddressOwner' in owner) return owner.AddressOwner;
+  if ('ObjectOwner' in owner) return owner.ObjectOwner;
+  return null;
+}
+
+/**
+ * Turns a transaction's `objectChanges` into the objects it created.
+ */
+export function parseCreatedObjects(changes: SuiObjectChange[] | null | undefined): CreatedObject[] {
+  return (changes || []).flatMap(change =>
+    change.type === 'created'
+      ? [{ objectId: change.objectId, objectType: change.objectType, ...classify(change) }]
+      : []
+  );
+}
+
+export function summarizeObjects(objects: CreatedObject[]): ObjectSummary {
+  const summary: ObjectSummary = {
+    upgradeCap: null,
+    publishers: [],
+    displays: [],
+    shared: {},
+    owned: {},
+    immutable: {},
+  };
+
+  for (const object of objects) {
+    switch (object.kind) {
+      case 'upgradeCap':
+        summary.upgradeCap = object;
+        break;
+      case 'publisher':
+        summary.publishers.push(object);
+        break;
+      case 'display':
+        summary.displays.push(object);
+        break;
+      default:
+        (summary[object.kind][object.objectType] ||= []).push(object);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * `module::Struct` part of a Move type, without the package address or type arguments.
+ */
+export function typeKey(objectType: string): string {
+  return objectType.replace(/<.*>$/, '').split('::').slice(1).join('::');
+}
+
+/**
+ * Picks the object `{{OBJECT_ID}}` stands for: the first shared object of one of
+ * the package's own types, else the first such owned object.
+ */
+export function primaryObjectId(objects: CreatedObject[], packageId: string): string | null {
+  const ownTypes = objects.filter(object =>
+    normalizeSuiAddress(object.objectType.split('::')[0]) === normalizeSuiAddress(packageId)
+  );
+
+  return (
+    ownTypes.find(object => object.kind === 'shared') ||
+    ownTypes.find(object => object.kind === 'owned')
+  )?.objectId || null;
+}
+
+/**
+ * Replaces `{{OBJECT_ID:module::Struct}}` with the ID of the first created object
+ * of that type. Unknown types are left as they are so the mistake shows up in the app.
+ */
+export function fillObjectPlaceholders(code: string, objects: CreatedObject[]): string {
+  return code.replace(TYPED_PLACEHOLDER_RE, (placeholder, key: string) =>
+    objects.find(object => typeKey(object.objectType) === key)?.objectId || placeholder
+  );
+}
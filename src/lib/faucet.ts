@@ -0,0 +1,50 @@
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { NETWORKS, SuiNetwork } from './networks';
+
+const MASTER_WALLET_MNEMONIC = process.env.MASTER_WALLET_MNEMONIC;
+
+/**
+ * Funds a fresh burner address from the network's faucet, falling back to a
+ * transfer from the master wallet. Mainnet has no faucet, so there the master
+ * wallet is the only source.
+ */
+export async function fundBurnerWallet(address: string, network: SuiNetwork) {
+  const { faucetUrl, rpcUrl } = NETWORKS[network];
+
+  try {
+    if (!faucetUrl) {
+      throw new Error(`${network} has no faucet`);
+    }
+
+    // Try to request from faucet first
+    const response = await fetch(faucetUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ FixedAmountRequest: { recipient: address } }),
+    });
+    if (!response.ok) {
+      throw new Error(`Faucet responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.warn('Faucet request failed, trying master wallet funding...', error);
+
+    if (!MASTER_WALLET_MNEMONIC) return;
+
+    const masterKeypair = Ed25519Keypair.deriveKeypair(MASTER_WALLET_MNEMONIC);
+    const masterClient = new SuiClient({ url: rpcUrl });
+
+    const tx = new Transaction();
+    const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(1000000000)]); // 1 SUI
+    tx.transferObjects([coin], tx.pure.address(address));
+
+    await masterClient.signAndExecuteTransaction({
+      signer: masterKeypair,
+      transaction: tx,
+    });
+  }
+
+  // Wait for the transaction to complete
+  await new Promise(resolve => setTimeout(resolve, 3000));
+}
@@ -0,0 +1,68 @@
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { CreatedObject, parseCreatedObjects } from './deployedObjects';
+
+// Budget on top of the dry run's computation and storage cost, as a fraction
+const GAS_BUDGET_MARGIN = Number(process.env.GAS_BUDGET_MARGIN || 0.2);
+
+// The protocol's maximum budget; the dry run pays with a mock coin, so this costs nothing
+const DRY_RUN_GAS_BUDGET = BigInt(50_000_000_000);
+
+// All amounts are in MIST, as strings since they can exceed 2^53
+export interface GasEstimate {
+  gasPrice: string;
+  computationCost: string;
+  storageCost: string;
+  storageRebate: string;
+  nonRefundableStorageFee: string;
+  // What the sender ends up paying: computation + storage - rebate
+  netCost: string;
+  // Computation + storage plus the margin; the rebate is only paid back afterwards
+  gasBudget: string;
+}
+
+export interface DryRunEstimate {
+  success: boolean;
+  error: string | null;
+  estimate: GasEstimate;
+  createdObjects: CreatedObject[];
+}
+
+/**
+ * Dry-runs `tx` as `sender` and derives a gas budget from what it used. A
+ * copy of the transaction is run with a mock gas coin, so the sender doesn't
+ * need funds yet and `tx` keeps its own gas settings.
+ */
+export async function dryRunWithEstimate(
+  client: SuiClient,
+  tx: Transaction,
+  sender: string
+): Promise<DryRunEstimate> {
+  const dryRunTx = Transaction.from(tx);
+  dryRunTx.setSender(sender);
+  dryRunTx.setGasPayment([]);
+  dryRunTx.setGasBudget(DRY_RUN_GAS_BUDGET);
+
+  const result = await client.dryRunTransactionBlock({
+    transactionBlock: await dryRunTx.build({ client }),
+  });
+
+  const { computationCost, storageCost, storageRebate, nonRefundableStorageFee } = result.effects.gasUsed;
+  const charged = BigInt(computationCost) + BigInt(storageCost);
+  const gasBudget = charged + (charged * BigInt(Math.round(GAS_BUDGET_MARGIN * 100))) / BigInt(100);
+
+  return {
+    success: result.effects.status.status === 'success',
+    error: result.effects.status.error || null,
+    estimate: {
+      gasPrice: String(dryRunTx.getData().gasData.price ?? ''),
+      computationCost,
+      storageCost,
+      storageRebate,
+      nonRefundableStorageFee,
+      netCost: String(charged - BigInt(storageRebate)),
+      gasBudget: String(gasBudget),
+    },
+    createdObjects: parseCreatedObjects(result.objectChanges),
+  };
+}
@@ -0,0 +1,300 @@
+import { MOVE_FILE_PATTERN, MoveFiles } from './moveWorkspace';
+import { closePartialJson, repairJson } from './partialJson';
+import { FRONTEND_ENTRY, frontendPathError, FrontendFiles } from './previewTemplate';
+
+export interface EntryFunction {
+  module: string;
+  name: string;
+  description: string;
+}
+
+export interface DappMetadata {
+  dappName: string;
+  description: string;
+  // Functions the frontend is meant to call
+  entryFunctions: EntryFunction[];
+}
+
+/**
+ * A validated model reply. On the wire both file sets are `{ path, content }`
+ * lists, since structured-output modes can't describe maps with arbitrary keys.
+ */
+export interface GeneratedDapp {
+  metadata: DappMetadata;
+  moveFiles: MoveFiles;
+  frontendFiles: FrontendFiles;
+}
+
+export interface FieldError {
+  // e.g. `moveFiles[0].path`; empty for the reply as a whole
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a reply can't be used, with one entry per problem found.
+ */
+export class GeneratedDappError extends Error {
+  constructor(public fieldErrors: FieldError[]) {
+    super(fieldErrors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; '));
+    this.name = 'GeneratedDappError';
+  }
+}
+
+const fileList = (description: string) => ({
+  type: 'array',
+  description,
+  items: {
+    type: 'object',
+    properties: {
+      path: { type: 'string' },
+      content: { type: 'string' },
+    },
+    required: ['path', 'content'],
+    additionalProperties: false,
+  },
+});
+
+// JSON Schema for the reply, in the subset OpenAI's strict mode accepts
+export const GENERATED_DAPP_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    metadata: {
+      type: 'object',
+      properties: {
+        dappName: { type: 'string' },
+        description: { type: 'string' },
+        entryFunctions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              module: { type: 'string' },
+              name: { type: 'string' },
+              description: { type: 'string' },
+            },
+            required: ['module', 'name', 'description'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['dappName', 'description', 'entryFunctions'],
+      additionalProperties: false,
+    },
+    moveFiles: fileList('Move package files; paths like sources/<module>.move or tests/<module>_tests.move'),
+    frontendFiles: fileList('React app files; paths under src/, including src/App.tsx'),
+  },
+  required: ['metadata', 'moveFiles', 'frontendFiles'],
+  additionalProperties: false,
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the `[path, content, fieldPath]` entries of a `{ path, content }` list
+ * or a path-to-content map, the form older prompts asked for.
+ */
+function fileEntries(value: unknown, field: string): [unknown, unknown, string][] {
+  if (Array.isArray(value)) {
+    return value.map((entry, i) => [
+      isRecord(entry) ? entry.path : undefined,
+      isRecord(entry) ? entry.content : undefined,
+      `${field}[${i}]`,
+    ]);
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).map(([filePath, content]) => [
+      filePath,
+      content,
+      `${field}[${JSON.stringify(filePath)}]`,
+    ]);
+  }
+  return [];
+}
+
+function readFiles(
+  value: unknown,
+  field: string,
+  pathError: (filePath: string) => string | null,
+  errors: FieldError[]
+): Record<string, string> {
+  if (!Array.isArray(value) && !isRecord(value)) {
+    errors.push({ path: field, message: value === undefined ? 'is required' : 'must be a list of { path, content } files' });
+    return {};
+  }
+
+  const files: Record<string, string> = {};
+  for (const [filePath, content, entryPath] of fileEntries(value, field)) {
+    if (typeof filePath !== 'string') {
+      errors.push({ path: `${entryPath}.path`, message: 'must be a string' });
+      continue;
+    }
+    const problem = pathError(filePath);
+    if (problem) {
+      errors.push({ path: `${entryPath}.path`, message: `${filePath} ${problem}` });
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      errors.push({ path: `${entryPath}.content`, message: 'must be a non-empty string' });
+      continue;
+    }
+    if (filePath in files) {
+      errors.push({ path: `${entryPath}.path`, message: `${filePath} appears more than once` });
+    }
+    files[filePath] = content;
+  }
+  return files;
+}
+
+const movePathError = (filePath: string) =>
+  MOVE_FILE_PATTERN.test(filePath) ? null : 'must be a .move file under sources/ or tests/';
+
+/**
+ * Maps each module declared under `sources/` to its source.
+ */
+function moduleSources(moveFiles: MoveFiles): Map<string, string> {
+  const modules = new Map<string, string>();
+  for (const [filePath, content] of Object.entries(moveFiles)) {
+    if (!filePath.startsWith('sources/')) continue;
+    for (const match of content.matchAll(/\bmodule\s+\w+::(\w+)/g)) {
+      modules.set(match[1], content);
+    }
+  }
+  return modules;
+}
+
+function readMetadata(value: unknown, moveFiles: MoveFiles, errors: FieldError[]): DappMetadata {
+  const metadata: DappMetadata = { dappName: '', description: '', entryFunctions: [] };
+  if (!isRecord(value)) {
+    errors.push({ path: 'metadata', message: value === undefined ? 'is required' : 'must be an object' });
+    return metadata;
+  }
+
+  if (typeof value.dappName !== 'string' || !value.dappName.trim()) {
+    errors.push({ path: 'metadata.dappName', message: 'must be a non-empty string' });
+  } else {
+    metadata.dappName = value.dappName.trim();
+  }
+
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push({ path: 'metadata.description', message: 'must be a string' });
+  } else if (typeof value.description === 'string') {
+    metadata.description = value.description;
+  }
+
+  if (!Array.isArray(value.entryFunctions)) {
+    errors.push({ path: 'metadata.entryFunctions', message: 'must be a list of { module, name, description }' });
+    return metadata;
+  }
+
+  const modules = moduleSources(moveFiles);
+  value.entryFunctions.forEach((entry: unknown, i: number) => {
+    const entryPath = `metadata.entryFunctions[${i}]`;
+    if (!isRecord(entry) || typeof entry.module !== 'string' || typeof entry.name !== 'string') {
+      errors.push({ path: entryPath, message: 'must have string module and name fields' });
+      return;
+    }
+    if (!IDENTIFIER.test(entry.module) || !IDENTIFIER.test(entry.name)) {
+      errors.push({ path: entryPath, message: `${entry.module}::${entry.name} is not a valid Move identifier` });
+      return;
+    }
+
+    // Only cross-check against the package when the package itself is usable
+    const source = modules.get(entry.module);
+    if (modules.size > 0 && !source) {
+      errors.push({ path: `${entryPath}.module`, message: `no module named ${entry.module} under sources/` });
+    } else if (source && !new RegExp(`\\bfun\\s+${entry.name}\\s*[<(]`).test(source)) {
+      errors.push({ path: `${entryPath}.name`, message: `module ${entry.module} has no function ${entry.name}` });
+    }
+
+    metadata.entryFunctions.push({
+      module: entry.module,
+      name: entry.name,
+      description: typeof entry.description === 'string' ? entry.description : '',
+    });
+  });
+
+  return metadata;
+}
+
+/**
+ * Checks a parsed reply against the schema. Also accepts the legacy
+ * `moveCode`/`frontendCode` strings for a single-module contract and app.
+ */
+export function validateGeneratedDapp(value: unknown): { dapp: GeneratedDapp; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const reply = isRecord(value) ? value : {};
+  if (!isRecord(value)) {
+    errors.push({ path: '', message: 'must be a JSON object' });
+  }
+
+  const rawMoveFiles = reply.moveFiles ?? (typeof reply.moveCode === 'string' ? { 'sources/contract.move': reply.moveCode } : undefined);
+  const moveFiles = readFiles(rawMoveFiles, 'moveFiles', movePathError, errors);
+  if (rawMoveFiles !== undefined && !Object.keys(moveFiles).some(filePath => filePath.startsWith('sources/'))) {
+    errors.push({ path: 'moveFiles', message: 'needs at least one file under sources/' });
+  }
+
+  const rawFrontendFiles = reply.frontendFiles ?? (typeof reply.frontendCode === 'string' ? { [FRONTEND_ENTRY]: reply.frontendCode } : undefined);
+  const frontendFiles = readFiles(rawFrontendFiles, 'frontendFiles', frontendPathError, errors);
+  if (rawFrontendFiles !== undefined && !(FRONTEND_ENTRY in frontendFiles)) {
+    errors.push({ path: 'frontendFiles', message: `needs ${FRONTEND_ENTRY}` });
+  }
+
+  const metadata = readMetadata(reply.metadata, moveFiles, errors);
+
+  return { dapp: { metadata, moveFiles, frontendFiles }, errors };
+}
+
+/**
+ * Parses and validates a complete model reply. Replies that aren't valid JSON
+ * get one repair pass (see `repairJson` and `closePartialJson`) first. Throws
+ * a `GeneratedDappError` listing every problem left.
+ */
+export function parseGeneratedDapp(text: string): GeneratedDapp {
+  let value: unknown;
+  let truncated = false;
+
+  try {
+    value = JSON.parse(text);
+  } catch {
+    const repaired = repairJson(text);
+    const closed = closePartialJson(repaired);
+    truncated = !repaired.startsWith(closed);
+    try {
+      value = JSON.parse(closed);
+    } catch (error) {
+      throw new GeneratedDappError([{
+        path: '',
+        message: `Reply is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+      }]);
+    }
+  }
+
+  const { dapp, errors } = validateGeneratedDapp(value);
+  if (errors.length > 0) {
+    if (truncated) {
+      errors.unshift({ path: '', message: 'Reply was cut off before the end of the JSON object' });
+    }
+    throw new GeneratedDappError(errors);
+  }
+  return dapp;
+}
+
+/**
+ * Whatever files are complete enough to show from a partially streamed reply.
+ */
+export function readPartialDapp(value: unknown): Pick<GeneratedDapp, 'moveFiles' | 'frontendFiles'> {
+  const reply = isRecord(value) ? value : {};
+  const strings = (raw: unknown, field: string) => Object.fromEntries(
+    fileEntries(raw, field).filter(
+      (entry): entry is [string, string, string] => typeof entry[0] === 'string' && typeof entry[1] === 'string'
+    ).map(([filePath, content]) => [filePath, content])
+  );
+
+  return {
+    moveFiles: strings(reply.moveFiles ?? (reply.moveCode !== undefined ? { 'sources/contract.move': reply.moveCode } : {}), 'moveFiles'),
+    frontendFiles: strings(reply.frontendFiles ?? (reply.frontendCode !== undefined ? { [FRONTEND_ENTRY]: reply.frontendCode } : {}), 'frontendFiles'),
+  };
+}
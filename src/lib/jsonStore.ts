@@ -0,0 +1,46 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// Local persistence for studio data; a JSON file per collection is plenty for one studio instance
+export const DATA_DIR = process.env.STUDIO_DATA_DIR || path.join(process.cwd(), '.sui-studio');
+
+// Per-file promise chains so read-modify-write updates within this process never interleave
+const fileLocks = new Map<string, Promise<unknown>>();
+
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(DATA_DIR, fileName), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const filePath = path.join(DATA_DIR, fileName);
+  // Write then rename so a crash never leaves a half-written file
+  const tempFile = `${filePath}.${uuidv4()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2), { mode: 0o600 });
+  await fs.rename(tempFile, filePath);
+}
+
+/**
+ * Applies `update` to the file's contents and writes the result back,
+ * serialised with any other update to the same file. Resolves to what `update` returns.
+ */
+export function updateJsonFile<T, R>(
+  fileName: string,
+  fallback: T,
+  update: (data: T) => { data: T; result: R }
+): Promise<R> {
+  const previous = fileLocks.get(fileName) || Promise.resolve();
+  const next = previous.catch(() => {}).then(async () => {
+    const { data, result } = update(await readJsonFile(fileName, fallback));
+    await writeJsonFile(fileName, data);
+    return result;
+  });
+  fileLocks.set(fileName, next);
+  return next;
+}
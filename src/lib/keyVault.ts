@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { readJsonFile, updateJsonFile } from './jsonStore';
+
+const DEPLOYER_KEYS_FILE = 'deployer-keys.json';
+
+interface StoredDeployerKey {
+  address: string;
+  encryptedKey: string;
+  createdAt: string;
+}
+
+let encryptionKey: Buffer | null = null;
+
+/**
+ * Derives the AES key from SIGNING_PROXY_SECRET. Without it a random key is
+ * used, which means stored keys don't survive a server restart.
+ */
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    const secret = process.env.SIGNING_PROXY_SECRET;
+    if (!secret) {
+      console.warn('SIGNING_PROXY_SECRET is not set; stored keys will be lost on restart');
+    }
+    encryptionKey = secret
+      ? crypto.createHash('sha256').update(secret).digest()
+      : crypto.randomBytes(32);
+  }
+  return encryptionKey;
+}
+
+/**
+ * Encrypts a keypair's secret key as base64 iv + auth tag + AES-256-GCM ciphertext.
+ */
+export function sealKeypair(keypair: Ed25519Keypair): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.getSecretKey(), 'utf-8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Reverses `sealKeypair`, or returns null if the key was sealed under a different
+ * secret, e.g. before a restart without SIGNING_PROXY_SECRET.
+ */
+export function openKeypair(sealed: string): Ed25519Keypair | null {
+  try {
+    const data = Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const secretKey = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf-8');
+    return Ed25519Keypair.fromSecretKey(decodeSuiPrivateKey(secretKey).secretKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keeps a burner deployer's key so it can later sign upgrades with the
+ * UpgradeCap it owns. Unlike signing sessions these never expire.
+ */
+export async function saveDeployerKey(keypair: Ed25519Keypair): Promise<void> {
+  const entry: StoredDeployerKey = {
+    address: keypair.getPublicKey().toSuiAddress(),
+    encryptedKey: sealKeypair(keypair),
+    createdAt: new Date().toISOString(),
+  };
+
+  await updateJsonFile<StoredDeployerKey[], void>(DEPLOYER_KEYS_FILE, [], keys => ({
+    data: [...keys.filter(k => k.address !== entry.address), entry],
+    result: undefined,
+  }));
+}
+
+export async function getDeployerKeypair(address: string): Promise<Ed25519Keypair | null> {
+  const stored = (await readJsonFile<StoredDeployerKey[]>(DEPLOYER_KEYS_FILE, [])).find(k => k.address === address);
+  return stored ? openKeypair(stored.encryptedKey) : null;
+}
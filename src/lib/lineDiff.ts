@@ -0,0 +1,110 @@
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers; null on the side the line doesn't exist
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+// Beyond this many line pairs the LCS table gets too big to build in the browser
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff of two texts based on their longest common subsequence. Very large
+ * inputs fall back to removing every old line and adding every new one.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after ? after.split('\n') : [];
+
+  // Common prefix and suffix don't need the table
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  const result: DiffLine[] = [];
+  const same = (i: number, j: number) =>
+    result.push({ kind: 'same', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+
+  for (let i = 0; i < prefix; i++) same(i, i);
+
+  if (n * m > MAX_DIFF_CELLS) {
+    oldMiddle.forEach((text, i) => result.push({ kind: 'removed', text, oldLine: prefix + i + 1, newLine: null }));
+    newMiddle.forEach((text, j) => result.push({ kind: 'added', text, oldLine: null, newLine: prefix + j + 1 }));
+  } else {
+    // lengths[i][j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        same(prefix + i++, prefix + j++);
+      } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        result.push({ kind: 'removed', text: oldMiddle[i], oldLine: prefix + i++ + 1, newLine: null });
+      } else {
+        result.push({ kind: 'added', text: newMiddle[j], oldLine: null, newLine: prefix + j++ + 1 });
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) same(oldLines.length - k, newLines.length - k);
+
+  return result;
+}
+
+/**
+ * Groups a diff into hunks of changed lines with `context` unchanged lines
+ * around each; runs of unchanged lines in between are left out.
+ */
+export function diffHunks(lines: DiffLine[], context = 3): DiffLine[][] {
+  const hunks: DiffLine[][] = [];
+  let current: DiffLine[] = [];
+  let lastChange = -Infinity;
+
+  const addTrailingContext = () => {
+    for (let k = lastChange + 1; k <= Math.min(lastChange + context, lines.length - 1); k++) {
+      current.push(lines[k]);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (line.kind === 'same') return;
+
+    if (index - lastChange - 1 > 2 * context) {
+      // Too far from the previous change to share a hunk
+      if (hunks.length > 0) addTrailingContext();
+      current = [];
+      hunks.push(current);
+      for (let k = Math.max(index - context, 0); k < index; k++) current.push(lines[k]);
+    } else {
+      for (let k = lastChange + 1; k < index; k++) current.push(lines[k]);
+    }
+    current.push(line);
+    lastChange = index;
+  });
+
+  if (hunks.length > 0) addTrailingContext();
+  return hunks;
+}
@@ -0,0 +1,154 @@
+import fs from 'fs/promises';
+import type { GenerateResult, LlmProvider } from './types';
+
+// Replaces the built-in reply below, e.g. to replay a recorded model response
+const LLM_FIXTURE_FILE = process.env.LLM_FIXTURE_FILE;
+
+const CHUNK_SIZE = 64;
+
+const COUNTER_MOVE = `module temp_contract::counter {
+    public struct Counter has key {
+        id: UID,
+        value: u64,
+    }
+
+    fun init(ctx: &mut TxContext) {
+        transfer::share_object(Counter {
+            id: object::new(ctx),
+            value: 0,
+        });
+    }
+
+    public entry fun increment(counter: &mut Counter, _ctx: &mut TxContext) {
+        counter.value = counter.value + 1;
+    }
+
+    public fun value(counter: &Counter): u64 {
+        counter.value
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+}
+`;
+
+const COUNTER_TESTS = `#[test_only]
+module temp_contract::counter_tests {
+    use sui::test_scenario;
+    use temp_contract::counter::{Self, Counter};
+
+    #[test]
+    fun increment_adds_one() {
+        let mut scenario = test_scenario::begin(@0xA);
+        counter::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(@0xB);
+        let mut counter = scenario.take_shared<Counter>();
+        counter.increment(scenario.ctx());
+        assert!(counter.value() == 1, 0);
+        test_scenario::return_shared(counter);
+        scenario.end();
+    }
+}
+`;
+
+const COUNTER_FRONTEND = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { signAndExecute } from './studioSigner';
+import { counter, Counter } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+
+export default function App() {
+  const [current, setCurrent] = useState<Counter | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = async () => {
+    setCurrent(await Counter.fetch(client, '{{OBJECT_ID}}'));
+  };
+
+  const increment = async () => {
+    setLoading(true);
+    try {
+      const tx = new Transaction();
+      counter.increment(tx, '{{OBJECT_ID}}');
+      await signAndExecute(tx);
+      await refresh();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  return (
+    <div style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
+      <h1>Counter</h1>
+      <p>Current value: {current ? String(current.value) : '...'}</p>
+      <button onClick={increment} disabled={loading}>
+        {loading ? 'Processing...' : 'Increment'}
+      </button>
+    </div>
+  );
+}
+`;
+
+const COUNTER_REPLY = JSON.stringify({
+  metadata: {
+    dappName: 'Counter',
+    description: 'A shared counter anyone can increment',
+    entryFunctions: [{ module: 'counter', name: 'increment', description: 'Adds one to the counter' }],
+  },
+  moveFiles: [
+    { path: 'sources/counter.move', content: COUNTER_MOVE },
+    { path: 'tests/counter_tests.move', content: COUNTER_TESTS },
+  ],
+  frontendFiles: [{ path: 'src/App.tsx', content: COUNTER_FRONTEND }],
+}, null, 2);
+
+// Rough count so fixture runs can still be compared with real providers
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic provider for offline work, enabled with LLM_PROVIDER=fixture:
+ * whatever the prompt, it answers with the same counter DApp (or the contents
+ * of LLM_FIXTURE_FILE).
+ */
+export function createFixtureProvider(model = 'counter'): LlmProvider {
+  const reply = async (prompt: string): Promise<GenerateResult> => {
+    const text = LLM_FIXTURE_FILE ? await fs.readFile(LLM_FIXTURE_FILE, 'utf-8') : COUNTER_REPLY;
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(text);
+    return {
+      text,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  };
+
+  return {
+    name: 'fixture',
+    model,
+
+    generate(prompt) {
+      return reply(prompt);
+    },
+
+    async stream(prompt, onText, options = {}) {
+      const result = await reply(prompt);
+      for (let i = 0; i < result.text.length; i += CHUNK_SIZE) {
+        if (options.signal?.aborted) {
+          throw new Error('Generation cancelled');
+        }
+        onText(result.text.slice(i, i + CHUNK_SIZE));
+      }
+      return result;
+    },
+  };
+}
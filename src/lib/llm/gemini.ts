@@ -0,0 +1,75 @@
+import { GenerateContentRequest, GenerationConfig, GoogleGenerativeAI } from '@google/generative-ai';
+import type { GenerateOptions, GenerateResult, LlmProvider, TokenUsage } from './types';
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+
+// The API returns usage on every response, but this SDK version doesn't type it
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+// JSON mode is supported by the API but not typed in this SDK version. Gemini's
+// own schema dialect is narrower than JSON Schema, so only JSON mode is requested
+interface JsonGenerationConfig extends GenerationConfig {
+  responseMimeType?: 'application/json';
+}
+
+function toTokenUsage(response: object): TokenUsage | null {
+  const usage = (response as { usageMetadata?: UsageMetadata }).usageMetadata;
+  if (!usage) return null;
+
+  const promptTokens = usage.promptTokenCount || 0;
+  const completionTokens = usage.candidatesTokenCount || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.totalTokenCount || promptTokens + completionTokens,
+  };
+}
+
+export function createGeminiProvider(model = 'gemini-2.0-flash'): LlmProvider {
+  const getModel = ({ temperature = 0, responseSchema }: GenerateOptions) => {
+    const generationConfig: JsonGenerationConfig = {
+      temperature,
+      ...(responseSchema ? { responseMimeType: 'application/json' } : {}),
+    };
+    return genAI.getGenerativeModel({ model, generationConfig });
+  };
+
+  const request = (prompt: string): GenerateContentRequest => ({
+    contents: [{
+      role: 'user',
+      parts: [{ text: prompt }]
+    }],
+  });
+
+  return {
+    name: 'gemini',
+    model,
+
+    async generate(prompt, options = {}): Promise<GenerateResult> {
+      const result = await getModel(options).generateContent(request(prompt));
+      const response = await result.response;
+      return { text: response.text(), usage: toTokenUsage(response) };
+    },
+
+    async stream(prompt, onText, options = {}): Promise<GenerateResult> {
+      const result = await getModel(options).generateContentStream(request(prompt));
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        // The SDK can't cancel the request, so stop reading instead
+        if (options.signal?.aborted) {
+          throw new Error('Generation cancelled');
+        }
+        const delta = chunk.text();
+        text += delta;
+        onText(delta);
+      }
+
+      return { text, usage: toTokenUsage(await result.response) };
+    },
+  };
+}
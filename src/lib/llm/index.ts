@@ -0,0 +1,54 @@
+import { createFixtureProvider } from './fixture';
+import { createGeminiProvider } from './gemini';
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+import type { LlmProvider, TokenUsage } from './types';
+
+export type { GenerateOptions, GenerateResult, LlmProvider, ResponseSchema, TokenUsage } from './types';
+
+export type LlmProviderName = 'gemini' | 'openai' | 'fixture';
+
+const PROVIDER_FACTORIES: Record<LlmProviderName, (model?: string) => LlmProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiCompatibleProvider,
+  fixture: createFixtureProvider,
+};
+
+// Defaults for requests that don't pick a provider
+const LLM_PROVIDER = process.env.LLM_PROVIDER || 'gemini';
+const LLM_MODEL = process.env.LLM_MODEL;
+
+// The fixture's canned reply is only for offline runs that ask for it with LLM_PROVIDER=fixture
+export const LLM_PROVIDERS = (Object.keys(PROVIDER_FACTORIES) as LlmProviderName[])
+  .filter(name => name !== 'fixture' || LLM_PROVIDER === 'fixture');
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return LLM_PROVIDERS.includes(value as LlmProviderName);
+}
+
+/**
+ * Returns the named provider, or the configured default. The model falls back
+ * to LLM_MODEL only for the default provider, since model names don't carry
+ * across providers; otherwise each provider picks its own default.
+ */
+export function getLlmProvider(name?: LlmProviderName, model?: string): LlmProvider {
+  const providerName = name || LLM_PROVIDER;
+  if (!isLlmProviderName(providerName)) {
+    throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+
+  const isDefault = providerName === LLM_PROVIDER;
+  return PROVIDER_FACTORIES[providerName](model || (isDefault ? LLM_MODEL : undefined));
+}
+
+/**
+ * Sums usage across calls; stays null if no call reported any.
+ */
+export function addTokenUsage(total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
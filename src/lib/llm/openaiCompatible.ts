@@ -0,0 +1,97 @@
+import { readEventFrames } from '../serverSentEvents';
+import type { GenerateOptions, GenerateResult, LlmProvider, ResponseSchema, TokenUsage } from './types';
+
+// Any server implementing the chat completions API: OpenAI, or a local Ollama
+// (`http://localhost:11434/v1`) or llama.cpp server (`http://localhost:8080/v1`)
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+// How to ask for structured replies: 'json_schema' (OpenAI, recent Ollama and
+// llama.cpp), 'json_object' for servers that only do JSON mode, or 'none'
+const OPENAI_RESPONSE_FORMAT = process.env.OPENAI_RESPONSE_FORMAT || 'json_schema';
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+function responseFormat(responseSchema: ResponseSchema | undefined) {
+  if (!responseSchema || OPENAI_RESPONSE_FORMAT === 'none') return {};
+  if (OPENAI_RESPONSE_FORMAT === 'json_object') {
+    return { response_format: { type: 'json_object' } };
+  }
+  return {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: true },
+    },
+  };
+}
+
+function toTokenUsage(usage: ChatCompletionUsage | null | undefined): TokenUsage | null {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+export function createOpenAiCompatibleProvider(model = 'gpt-4o-mini'): LlmProvider {
+  const complete = async (prompt: string, stream: boolean, { temperature = 0, signal, responseSchema }: GenerateOptions) => {
+    const response = await fetch(`${OPENAI_BASE_URL.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers usually don't need a key
+        ...(OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...responseFormat(responseSchema),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${OPENAI_BASE_URL} responded with ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai',
+    model,
+
+    async generate(prompt, options = {}): Promise<GenerateResult> {
+      const response = await complete(prompt, false, options);
+      const { choices, usage } = await response.json();
+      return { text: choices[0]?.message?.content || '', usage: toTokenUsage(usage) };
+    },
+
+    async stream(prompt, onText, options = {}): Promise<GenerateResult> {
+      const response = await complete(prompt, true, options);
+
+      let text = '';
+      let usage: TokenUsage | null = null;
+      await readEventFrames(response, (_event, data) => {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        // Sent on the last chunk when the server honours `include_usage`
+        if (chunk.usage) usage = toTokenUsage(chunk.usage);
+      });
+
+      return { text, usage };
+    },
+  };
+}
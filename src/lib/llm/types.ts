@@ -0,0 +1,36 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// A JSON Schema the reply should follow
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface GenerateOptions {
+  temperature?: number;
+  signal?: AbortSignal;
+  // Asks for JSON matching the schema where the provider supports it; callers
+  // still validate the reply, since not every provider or model enforces it
+  responseSchema?: ResponseSchema;
+}
+
+export interface GenerateResult {
+  text: string;
+  // null when the provider doesn't report usage
+  usage: TokenUsage | null;
+}
+
+/**
+ * A text-generation backend. `stream` calls `onText` with each new piece of
+ * text as it arrives and resolves to the same result `generate` would.
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<GenerateResult>;
+  stream(prompt: string, onText: (delta: string) => void, options?: GenerateOptions): Promise<GenerateResult>;
+}
@@ -0,0 +1,229 @@
+import type {
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedModules,
+  SuiMoveNormalizedType,
+} from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import type { Transaction, TransactionArgument } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { AnyBcs, anyInput, StructTag } from './moveTypes';
+
+
+// How the console asks for one argument
+export type ParamInput =
+  // An object ID; `type` is the struct it must be, null for a type parameter
+  | { kind: 'object'; type: string | null; mutable: boolean; byValue: boolean }
+  // A BCS-encoded value typed into a text field
+  | { kind: 'pure'; type: string };
+
+export interface ConsoleParam {
+  // What the function declares, e.g. `&mut 0x2::coin::Coin<0x2::sui::SUI>`
+  label: string;
+  input: ParamInput;
+  normalized: SuiMoveNormalizedType;
+}
+
+export interface ConsoleFunction {
+  module: string;
+  name: string;
+  isEntry: boolean;
+  typeParameters: number;
+  // Without the trailing `&TxContext`, which the runtime supplies
+  params: ConsoleParam[];
+  returns: string[];
+}
+
+const PRIMITIVES: Record<string, string> = {
+  Bool: 'bool', U8: 'u8', U16: 'u16', U32: 'u32', U64: 'u64', U128: 'u128', U256: 'u256', Address: 'address', Signer: 'signer',
+};
+
+// Structs passed by value as plain data rather than objects
+const PURE_STRUCTS = ['0x1::string::String', '0x1::ascii::String', '0x2::object::ID', '0x1::option::Option'];
+
+function structName({ address, module, name }: StructTag): string {
+  // Framework addresses read better short
+  const short = /^0x0*[12]$/.test(address) ? `0x${address.replace(/^0x0*/, '')}` : address;
+  return `${short}::${module}::${name}`;
+}
+
+function isStruct(type: SuiMoveNormalizedType, name: string): boolean {
+  return typeof type === 'object' && 'Struct' in type && structName(type.Struct) === name;
+}
+
+/**
+ * Move syntax for a normalized type; type parameters print as `T0`, `T1`...
+ */
+export function formatType(type: SuiMoveNormalizedType): string {
+  if (typeof type === 'string') return PRIMITIVES[type];
+  if ('Reference' in type) return `&${formatType(type.Reference)}`;
+  if ('MutableReference' in type) return `&mut ${formatType(type.MutableReference)}`;
+  if ('Vector' in type) return `vector<${formatType(type.Vector)}>`;
+  if ('TypeParameter' in type) return `T${type.TypeParameter}`;
+
+  const { typeArguments } = type.Struct;
+  const args = typeArguments.length > 0 ? `<${typeArguments.map(formatType).join(', ')}>` : '';
+  return structName(type.Struct) + args;
+}
+
+function isPureType(type: SuiMoveNormalizedType): boolean {
+  if (typeof type === 'string') return true;
+  if ('Vector' in type) return isPureType(type.Vector);
+  if ('Struct' in type) {
+    return PURE_STRUCTS.includes(structName(type.Struct)) && type.Struct.typeArguments.every(isPureType);
+  }
+  return false;
+}
+
+function describeParam(type: SuiMoveNormalizedType): ConsoleParam {
+  const label = formatType(type);
+  const inner = typeof type === 'object' && 'Reference' in type
+    ? type.Reference
+    : typeof type === 'object' && 'MutableReference' in type ? type.MutableReference : type;
+
+  if (isPureType(inner)) {
+    return { label, input: { kind: 'pure', type: formatType(inner) }, normalized: inner };
+  }
+
+  return {
+    label,
+    input: {
+      kind: 'object',
+      type: typeof inner === 'object' && 'Struct' in inner ? formatType(inner) : null,
+      mutable: typeof type === 'object' && 'MutableReference' in type,
+      byValue: inner === type,
+    },
+    normalized: inner,
+  };
+}
+
+function isTxContext(type: SuiMoveNormalizedType): boolean {
+  const inner = typeof type === 'object' && ('Reference' in type || 'MutableReference' in type)
+    ? ('Reference' in type ? type.Reference : type.MutableReference)
+    : type;
+  return isStruct(inner, '0x2::tx_context::TxContext');
+}
+
+function toConsoleFunction(module: string, name: string, fn: SuiMoveNormalizedFunction): ConsoleFunction {
+  return {
+    module,
+    name,
+    isEntry: fn.isEntry,
+    typeParameters: fn.typeParameters.length,
+    params: fn.parameters.filter(p => !isTxContext(p)).map(describeParam),
+    returns: fn.return.map(formatType),
+  };
+}
+
+/**
+ * Every function a transaction can call: public ones and entry ones, by module.
+ */
+export function listCallableFunctions(modules: SuiMoveNormalizedModules): ConsoleFunction[] {
+  return Object.values(modules)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(module =>
+      Object.entries(module.exposedFunctions)
+        .filter(([, fn]) => fn.visibility === 'Public' || fn.isEntry)
+        .map(([name, fn]) => toConsoleFunction(module.name, name, fn))
+    );
+}
+
+function bcsFor(type: SuiMoveNormalizedType): AnyBcs {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'Bool': return anyInput(bcs.bool());
+      case 'U8': return anyInput(bcs.u8());
+      case 'U16': return anyInput(bcs.u16());
+      case 'U32': return anyInput(bcs.u32());
+      case 'U64': return anyInput(bcs.u64());
+      case 'U128': return anyInput(bcs.u128());
+      case 'U256': return anyInput(bcs.u256());
+      case 'Address': return anyInput(bcs.Address);
+      default: throw new Error(`${type} can't be passed to a transaction`);
+    }
+  }
+  if ('Vector' in type) return anyInput(bcs.vector(bcsFor(type.Vector)));
+  if ('Struct' in type) {
+    const name = structName(type.Struct);
+    if (name === '0x2::object::ID') return anyInput(bcs.Address);
+    if (name === '0x1::option::Option') return anyInput(bcs.option(bcsFor(type.Struct.typeArguments[0])));
+    if (PURE_STRUCTS.includes(name)) return anyInput(bcs.string());
+  }
+  throw new Error(`${formatType(type)} can't be passed as a pure value`);
+}
+
+/**
+ * Reads a text field as the JS value BCS expects for `type`. Vectors take a
+ * JSON array or a comma-separated list, options take an empty field as none,
+ * and `vector<u8>` also takes `0x`-prefixed hex.
+ */
+export function parsePureValue(type: SuiMoveNormalizedType, text: string): unknown {
+  const value = text.trim();
+
+  if (typeof type === 'string') {
+    if (type === 'Bool') {
+      if (value !== 'true' && value !== 'false') throw new Error(`Expected true or false, got "${text}"`);
+      return value === 'true';
+    }
+    if (type === 'Address') return normalizeSuiAddress(value);
+    if (!/^\d+$/.test(value)) throw new Error(`Expected an unsigned integer, got "${text}"`);
+    return value;
+  }
+
+  if ('Vector' in type) {
+    if (type.Vector === 'U8' && /^0x[0-9a-fA-F]*$/.test(value)) {
+      return (value.slice(2).match(/../g) || []).map(byte => parseInt(byte, 16));
+    }
+    let items: unknown[];
+    if (value.startsWith('[')) {
+      items = JSON.parse(value);
+    } else {
+      items = value === '' ? [] : value.split(',').map(item => item.trim());
+    }
+    return items.map(item => parsePureValue(type.Vector, String(item)));
+  }
+
+  if ('Struct' in type) {
+    const name = structName(type.Struct);
+    if (name === '0x2::object::ID') return normalizeSuiAddress(value);
+    if (name === '0x1::option::Option') {
+      return value === '' ? null : parsePureValue(type.Struct.typeArguments[0], text);
+    }
+    return text;
+  }
+
+  throw new Error(`${formatType(type)} can't be passed as a pure value`);
+}
+
+// The gas coin can stand in for a `Coin<SUI>` argument
+export const GAS_COIN = 'gas';
+
+/**
+ * Adds a call to `fn` to `tx`. `values` holds one string per parameter:
+ * object IDs (or GAS_COIN) for objects, text for pure values.
+ */
+export function addConsoleCall(
+  tx: Transaction,
+  packageId: string,
+  fn: ConsoleFunction,
+  typeArguments: string[],
+  values: string[]
+) {
+  const args: TransactionArgument[] = fn.params.map((param, i) => {
+    const value = values[i] ?? '';
+    if (param.input.kind === 'object') {
+      if (!value.trim()) throw new Error(`Argument ${i} (${param.label}) needs an object ID`);
+      return value === GAS_COIN ? tx.gas : tx.object(value.trim());
+    }
+    try {
+      return tx.pure(bcsFor(param.normalized).serialize(parsePureValue(param.normalized, value)));
+    } catch (error) {
+      throw new Error(`Argument ${i} (${param.label}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  tx.moveCall({
+    target: `${packageId}::${fn.module}::${fn.name}`,
+    typeArguments,
+    arguments: args,
+  });
+}
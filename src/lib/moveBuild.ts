@@ -0,0 +1,143 @@
+import { MoveFiles, runSuiCommand, withMoveWorkspace } from './moveWorkspace';
+import { DEFAULT_NETWORK, SuiNetwork } from './networks';
+
+export interface MoveDiagnostic {
+  severity: 'error' | 'warning';
+  code: string | null;      // e.g. E06001, null for uncoded compiler errors
+  message: string;
+  file: string | null;
+  line: number | null;
+  column: number | null;
+}
+
+export interface MoveBuildResult {
+  success: boolean;
+  modules: string[];        // base64-encoded module bytecode
+  dependencies: string[];   // package IDs the modules link against
+  digest: number[];         // package digest, needed for upgrades
+  diagnostics: MoveDiagnostic[];
+}
+
+// Matches `error[E06001]: unused value without 'drop'` and plain `error: ...`
+const HEADER_RE = /^(error|warning)(?:\[(\w+)\])?:\s*(.+)$/;
+// Matches the location line `┌─ ./sources/contract.move:25:13`
+const LOCATION_RE = /┌─\s*(.+?):(\d+):(\d+)/;
+
+/**
+ * Strips ANSI colour codes the Move compiler emits even when not attached to a TTY.
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+/**
+ * Parses `sui move build` output into structured diagnostics.
+ * Each diagnostic starts with an `error[CODE]:` / `warning[CODE]:` header and is
+ * followed by a `┌─ file:line:col` location line.
+ */
+export function parseMoveDiagnostics(output: string): MoveDiagnostic[] {
+  const diagnostics: MoveDiagnostic[] = [];
+  let current: MoveDiagnostic | null = null;
+
+  for (const rawLine of stripAnsi(output).split('\n')) {
+    const line = rawLine.trim();
+
+    const header = line.match(HEADER_RE);
+    if (header) {
+      current = {
+        severity: header[1] as MoveDiagnostic['severity'],
+        code: header[2] || null,
+        message: header[3].trim(),
+        file: null,
+        line: null,
+        column: null,
+      };
+      diagnostics.push(current);
+      continue;
+    }
+
+    const location = line.match(LOCATION_RE);
+    if (location && current && current.file === null) {
+      current.file = location[1].replace(/^\.\//, '');
+      current.line = Number(location[2]);
+      current.column = Number(location[3]);
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Extracts the compiled package from `--dump-bytecode-as-base64` output.
+ * Current CLIs print a JSON object; older ones print `Compiled Modules: [...]`.
+ */
+function parseCompiledPackage(output: string): Pick<MoveBuildResult, 'modules' | 'dependencies' | 'digest'> {
+  const jsonLine = output.split('\n').find(line => line.trim().startsWith('{'));
+  if (jsonLine) {
+    const { modules, dependencies = [], digest = [] } = JSON.parse(jsonLine);
+    return { modules, dependencies, digest };
+  }
+
+  const modulesMatch = output.match(/Compiled Modules: \[([^\]]+)\]/);
+  if (!modulesMatch) {
+    throw new Error('Failed to extract compiled modules from build output');
+  }
+
+  const modules = modulesMatch[1]
+    .split(',')
+    .map((m: string) => m.trim().replace(/"/g, ''))
+    .filter(Boolean);
+
+  return { modules, dependencies: [], digest: [] };
+}
+
+/**
+ * Builds the Move package in an isolated workspace against `network`'s framework
+ * and returns the compiled modules or the compiler diagnostics.
+ */
+export async function buildMovePackage(
+  moveFiles: MoveFiles,
+  network: SuiNetwork = DEFAULT_NETWORK
+): Promise<MoveBuildResult> {
+  return withMoveWorkspace(moveFiles, network, async workspaceDir => {
+    const build = await runSuiCommand(['move', 'build', '--dump-bytecode-as-base64'], workspaceDir);
+
+    // Warnings are written to stderr even on a successful build
+    const diagnostics = parseMoveDiagnostics(`${build.stderr}\n${build.stdout}`);
+
+    if (build.status !== 0) {
+      if (!diagnostics.some(d => d.severity === 'error')) {
+        // Failures outside the compiler proper (dependency fetch, bad manifest)
+        diagnostics.push({
+          severity: 'error',
+          code: null,
+          message: stripAnsi(`${build.stderr}\n${build.stdout}`).trim() || `sui move build exited with code ${build.status}`,
+          file: null,
+          line: null,
+          column: null,
+        });
+      }
+
+      return { success: false, modules: [], dependencies: [], digest: [], diagnostics };
+    }
+
+    return {
+      success: true,
+      ...parseCompiledPackage(build.stdout),
+      diagnostics,
+    };
+  });
+}
+
+/**
+ * Renders diagnostics as compact compiler-style lines for feeding back to the model.
+ */
+export function formatMoveDiagnostics(diagnostics: MoveDiagnostic[]): string {
+  return diagnostics
+    .map(d => {
+      const code = d.code ? `[${d.code}]` : '';
+      const location = d.file ? ` (${d.file}:${d.line}:${d.column})` : '';
+      return `${d.severity}${code}: ${d.message}${location}`;
+    })
+    .join('\n');
+}
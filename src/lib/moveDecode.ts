@@ -0,0 +1,128 @@
+import { bcs, fromBase64, fromHex, toHex } from '@mysten/bcs';
+import type { SuiClient, SuiMoveNormalizedStruct, SuiMoveNormalizedType } from '@mysten/sui/client';
+import { TypeTag, TypeTagSerializer } from '@mysten/sui/bcs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { AnyBcs, anyInput, StructTag } from './moveTypes';
+
+
+const PRIMITIVE_TAGS: Record<string, SuiMoveNormalizedType> = {
+  bool: 'Bool', u8: 'U8', u16: 'U16', u32: 'U32', u64: 'U64', u128: 'U128', u256: 'U256', address: 'Address', signer: 'Signer',
+};
+
+// Addresses decode to the 0x-prefixed hex the RPC and explorers use
+const ADDRESS = bcs.bytes(32).transform({
+  input: (address: string) => fromHex(normalizeSuiAddress(address)),
+  output: bytes => `0x${toHex(bytes)}`,
+});
+
+function fromTypeTag(tag: TypeTag): SuiMoveNormalizedType {
+  if ('vector' in tag) return { Vector: fromTypeTag(tag.vector) };
+  if ('struct' in tag) {
+    const { address, module, name, typeParams } = tag.struct;
+    return { Struct: { address, module, name, typeArguments: typeParams.map(fromTypeTag) } };
+  }
+  return PRIMITIVE_TAGS[Object.keys(tag)[0]];
+}
+
+function qualifiedName({ address, module, name }: StructTag): string {
+  return `${normalizeSuiAddress(address)}::${module}::${name}`;
+}
+
+function normalizeType(type: string): string {
+  const [address, module, name] = type.split('::');
+  return qualifiedName({ address, module, name, typeArguments: [] });
+}
+
+const STRING_TYPES = ['0x1::string::String', '0x1::ascii::String'].map(normalizeType);
+// Both are a single address on the wire; showing them as one reads better
+const ID_TYPES = ['0x2::object::UID', '0x2::object::ID'].map(normalizeType);
+const OPTION_TYPE = normalizeType('0x1::option::Option');
+
+export interface MoveDecoder {
+  /**
+   * Decodes an object's raw BCS contents (base64, as returned with
+   * `showBcs`) into plain values: numbers above u32 as strings, addresses
+   * and IDs as hex, options as the value or null.
+   */
+  decode: (objectType: string, bcsBytes: string) => Promise<unknown>;
+}
+
+/**
+ * Decodes Move values with layouts built from the chain's normalized struct
+ * definitions. Struct definitions and layouts are cached for the decoder's
+ * lifetime; they can't change for a given package version.
+ */
+export function createMoveDecoder(client: SuiClient): MoveDecoder {
+  const structs = new Map<string, Promise<SuiMoveNormalizedStruct>>();
+  const layouts = new Map<string, Promise<AnyBcs>>();
+
+  const getStruct = (tag: StructTag) => {
+    const key = qualifiedName(tag);
+    if (!structs.has(key)) {
+      const struct = client.getNormalizedMoveStruct({ package: tag.address, module: tag.module, struct: tag.name });
+      // A failed lookup is retried on the next decode instead of being cached
+      structs.set(key, struct.catch(error => {
+        structs.delete(key);
+        throw error;
+      }));
+    }
+    return structs.get(key)!;
+  };
+
+  // Replaces type parameters with the concrete types they stand for
+  const substitute = (type: SuiMoveNormalizedType, typeArguments: SuiMoveNormalizedType[]): SuiMoveNormalizedType => {
+    if (typeof type === 'string') return type;
+    if ('TypeParameter' in type) return typeArguments[type.TypeParameter];
+    if ('Vector' in type) return { Vector: substitute(type.Vector, typeArguments) };
+    if ('Struct' in type) {
+      return { Struct: { ...type.Struct, typeArguments: type.Struct.typeArguments.map(t => substitute(t, typeArguments)) } };
+    }
+    throw new Error('References are not stored in objects');
+  };
+
+  const layoutFor = async (type: SuiMoveNormalizedType): Promise<AnyBcs> => {
+    if (typeof type === 'string') {
+      switch (type) {
+        case 'Bool': return anyInput(bcs.bool());
+        case 'U8': return anyInput(bcs.u8());
+        case 'U16': return anyInput(bcs.u16());
+        case 'U32': return anyInput(bcs.u32());
+        case 'U64': return anyInput(bcs.u64());
+        case 'U128': return anyInput(bcs.u128());
+        case 'U256': return anyInput(bcs.u256());
+        case 'Address': return anyInput(ADDRESS);
+        default: throw new Error(`${type} values are not stored in objects`);
+      }
+    }
+    if ('Vector' in type) return anyInput(bcs.vector(await layoutFor(type.Vector)));
+    if (!('Struct' in type)) throw new Error('Unresolved type parameter in a stored value');
+
+    const name = qualifiedName(type.Struct);
+    if (STRING_TYPES.includes(name)) return anyInput(bcs.string());
+    if (ID_TYPES.includes(name)) return anyInput(ADDRESS);
+    if (name === OPTION_TYPE) return anyInput(bcs.option(await layoutFor(type.Struct.typeArguments[0])));
+
+    const key = JSON.stringify(type);
+    if (!layouts.has(key)) {
+      layouts.set(key, (async () => {
+        const struct = await getStruct(type.Struct);
+        const fields: Record<string, AnyBcs> = {};
+        for (const field of struct.fields) {
+          fields[field.name] = await layoutFor(substitute(field.type, type.Struct.typeArguments));
+        }
+        return anyInput(bcs.struct(type.Struct.name, fields));
+      })().catch(error => {
+        layouts.delete(key);
+        throw error;
+      }));
+    }
+    return layouts.get(key)!;
+  };
+
+  return {
+    decode: async (objectType, bcsBytes) => {
+      const layout = await layoutFor(fromTypeTag(TypeTagSerializer.parseFromStr(objectType, true)));
+      return layout.parse(fromBase64(bcsBytes));
+    },
+  };
+}
@@ -0,0 +1,292 @@
+import { blankCommentsAndStrings, bracketContents, lineAt, splitTopLevel } from './moveSource';
+import type { MoveFiles } from './moveWorkspace';
+
+export type LintSeverity = 'high' | 'medium' | 'low';
+
+export interface MoveLintFinding {
+  rule: string;
+  // High findings can block a deploy; the rest are for review
+  severity: LintSeverity;
+  message: string;
+  file: string;
+  line: number;
+}
+
+interface Param {
+  name: string;
+  type: string;
+}
+
+interface StructDecl {
+  name: string;
+  abilities: string[];
+  fields: Param[];
+  file: string;
+  line: number;
+}
+
+interface FunctionDecl {
+  name: string;
+  // `public` or `entry`, i.e. callable in a transaction; `public(package)` is not
+  isCallable: boolean;
+  isTest: boolean;
+  params: Param[];
+  body: string;
+  file: string;
+  line: number;
+  // Line number of an offset into `body`
+  lineOf: (offset: number) => number;
+}
+
+const SEVERITY_ORDER: LintSeverity[] = ['high', 'medium', 'low'];
+
+// Framework capabilities that lint like the package's own `...Cap` structs
+const FRAMEWORK_CAPS = ['TreasuryCap', 'UpgradeCap', 'DenyCap', 'DenyCapV2'];
+
+// Numeric fields whose underflow usually means a missing balance check
+const BALANCE_NAME = /(balance|amount|supply|funds|deposit|total|stake|reserve|price)\w*$/i;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `&mut pkg::mod::Counter<T>` -> `Counter`
+function baseType(type: string): string {
+  return type.replace(/^&\s*(mut\s+)?/, '').replace(/<[\s\S]*$/, '').split('::').pop()!.trim();
+}
+
+function parseParams(list: string): Param[] {
+  return splitTopLevel(list).map(param => {
+    const [name, ...type] = param.split(':');
+    return { name: name.replace(/^mut\s+/, '').trim(), type: type.join(':').trim() };
+  });
+}
+
+/**
+ * Reads the structs and functions of every module under sources/. Test
+ * modules are skipped; they never reach the chain.
+ */
+function parsePackage(moveFiles: MoveFiles): { structs: StructDecl[]; functions: FunctionDecl[] } {
+  const structs: StructDecl[] = [];
+  const functions: FunctionDecl[] = [];
+
+  for (const [file, rawSource] of Object.entries(moveFiles)) {
+    if (!file.startsWith('sources/')) continue;
+    const source = blankCommentsAndStrings(rawSource);
+
+    for (const struct of source.matchAll(/\bstruct\s+(\w+)\s*(?:<[^{(]*?>)?\s*(?:has\s+([\w\s,]+?))?\s*\{/g)) {
+      structs.push({
+        name: struct[1],
+        abilities: (struct[2] || '').split(',').map(a => a.trim()).filter(Boolean),
+        fields: parseParams(bracketContents(source, struct.index + struct[0].length - 1, '{', '}')),
+        file,
+        line: lineAt(source, struct.index),
+      });
+    }
+
+    const fnPattern = /((?:#\[[^\]]*\]\s*)*)((?:public(?:\s*\(\s*\w+\s*\))?\s+)?(?:entry\s+)?)fun\s+(\w+)\s*(?:<[^(]*>)?\s*\(/g;
+    for (const fn of source.matchAll(fnPattern)) {
+      const paramsStart = fn.index + fn[0].length - 1;
+      const paramList = bracketContents(source, paramsStart, '(', ')');
+      const braceIndex = source.indexOf('{', paramsStart + paramList.length + 2);
+      const semicolonIndex = source.indexOf(';', paramsStart + paramList.length + 2);
+      // Native functions have no body
+      if (braceIndex === -1 || (semicolonIndex !== -1 && semicolonIndex < braceIndex)) continue;
+
+      const modifiers = fn[2];
+      const bodyStart = braceIndex + 1;
+      functions.push({
+        name: fn[3],
+        isCallable: /\bentry\b/.test(modifiers) || /^public\s+/.test(modifiers),
+        isTest: /#\[\s*test/.test(fn[1]),
+        params: parseParams(paramList),
+        body: bracketContents(source, braceIndex, '{', '}'),
+        file,
+        line: lineAt(source, fn.index + fn[1].length),
+        lineOf: offset => lineAt(source, bodyStart + offset),
+      });
+    }
+  }
+
+  return { structs, functions };
+}
+
+/**
+ * The struct a local variable was built from, e.g. `AdminCap` for
+ * `let cap = AdminCap { ... }`; null if it wasn't built from a struct literal.
+ */
+function literalType(body: string, variable: string): string | null {
+  const binding = body.match(new RegExp(`\\blet\\s+(?:mut\\s+)?${escapeRegExp(variable)}\\s*(?::[^=]+)?=\\s*(\\w+)\\s*(?:<[^{]*>)?\\s*\\{`));
+  return binding ? binding[1] : null;
+}
+
+/**
+ * Types of the objects the package shares, found from its `share_object` calls.
+ */
+function sharedTypes(functions: FunctionDecl[]): Set<string> {
+  const shared = new Set<string>();
+  for (const fn of functions) {
+    for (const call of fn.body.matchAll(/\b(?:public_)?share_object\s*(?:<[^(]*>)?\s*\(\s*(\w+)\s*(\{|<)?/g)) {
+      const type = call[2] ? call[1] : literalType(fn.body, call[1]);
+      if (type) shared.add(type);
+    }
+  }
+  return shared;
+}
+
+function isCapabilityType(type: string, capabilities: Set<string>): boolean {
+  return capabilities.has(baseType(type));
+}
+
+/**
+ * Looks for an access check: a capability or Publisher parameter, or an
+ * assertion that involves the sender or an owner-like field.
+ */
+function hasAccessCheck(fn: FunctionDecl, capabilities: Set<string>): boolean {
+  if (fn.params.some(p => isCapabilityType(p.type, capabilities) || baseType(p.type) === 'Publisher')) {
+    return true;
+  }
+  return /\bassert!\s*\([^;]*\b(sender|owner|admin|creator|authority)\b/.test(fn.body)
+    || /\bsender\s*\(\s*\w*\s*\)\s*[!=]=|[!=]=\s*(?:ctx\.|tx_context::)sender\b/.test(fn.body);
+}
+
+/**
+ * Flags risky patterns in a Move package: unguarded mutation of shared
+ * objects, unchecked balance arithmetic, leaked capabilities and careless
+ * Publisher handling. Reads source text rather than compiled bytecode, so it
+ * can run in the browser on every edit; treat its findings as review hints.
+ */
+export function lintMovePackage(moveFiles: MoveFiles): MoveLintFinding[] {
+  const { structs, functions } = parsePackage(moveFiles);
+  const findings: MoveLintFinding[] = [];
+  const shared = sharedTypes(functions);
+  const capabilities = new Set([
+    ...FRAMEWORK_CAPS,
+    ...structs.filter(s => /Cap(ability)?$/.test(s.name) && s.abilities.includes('key')).map(s => s.name),
+  ]);
+
+  // Capabilities that can move freely
+  for (const struct of structs) {
+    if (!struct.abilities.includes('store')) continue;
+
+    const wrapped = struct.fields.find(f => isCapabilityType(f.type, capabilities));
+    if (wrapped && !capabilities.has(struct.name)) {
+      findings.push({
+        rule: 'wrapped-capability',
+        severity: 'high',
+        message: `\`${struct.name}\` has \`store\` and holds \`${wrapped.name}: ${wrapped.type}\`, so whoever ends up with the ${struct.name} holds the capability`,
+        file: struct.file,
+        line: struct.line,
+      });
+    } else if (capabilities.has(struct.name)) {
+      findings.push({
+        rule: 'capability-with-store',
+        severity: 'medium',
+        message: `\`${struct.name}\` has \`store\`, so its holder can public_transfer it or wrap it in other objects; drop \`store\` unless the capability is meant to be tradable`,
+        file: struct.file,
+        line: struct.line,
+      });
+    }
+  }
+
+  for (const fn of functions) {
+    if (fn.isTest) continue;
+
+    // Shared objects anyone can change
+    const mutatedShared = fn.params.find(p => /^&\s*mut\b/.test(p.type) && shared.has(baseType(p.type)));
+    if (fn.isCallable && mutatedShared && !hasAccessCheck(fn, capabilities)) {
+      findings.push({
+        rule: 'unguarded-shared-mutation',
+        severity: 'high',
+        message: `\`${fn.name}\` takes \`${mutatedShared.type}\`, a shared object, without a capability or sender check; anyone can call it`,
+        file: fn.file,
+        line: fn.line,
+      });
+    }
+
+    // Capabilities handed to whoever calls the function; `init` runs once, at publish
+    if (fn.isCallable && fn.name !== 'init') {
+      const transfers = /\b(?:public_)?transfer\s*(?:<[^(]*>)?\s*\(\s*(\w+)\s*(\{|<)?([^;]*)/g;
+      for (const call of fn.body.matchAll(transfers)) {
+        const type = call[2] ? call[1] : literalType(fn.body, call[1]);
+        if (!type || !capabilities.has(type)) continue;
+
+        findings.push({
+          rule: 'capability-to-caller',
+          severity: 'high',
+          message: /\bsender\b/.test(call[3])
+            ? `\`${fn.name}\` creates a new \`${type}\` and sends it to the sender, so anyone can mint themselves one`
+            : `\`${fn.name}\` creates and transfers a new \`${type}\`; anyone who can call it decides who gets one`,
+          file: fn.file,
+          line: fn.lineOf(call.index),
+        });
+      }
+    }
+
+    // Subtraction that aborts with a bare arithmetic error when it underflows
+    for (const subtraction of fn.body.matchAll(/([\w.]+)\s*-(?![=>])\s*[\w(]/g)) {
+      const operand = subtraction[1];
+      if (!BALANCE_NAME.test(operand) || /^\d/.test(operand)) continue;
+
+      const guard = new RegExp(
+        `\\b(?:assert!|if)\\s*\\([^;{]*(?:${escapeRegExp(operand)}\\s*[<>]=?|[<>]=?\\s*${escapeRegExp(operand)}\\b)`
+      );
+      if (guard.test(fn.body)) continue;
+
+      findings.push({
+        rule: 'unchecked-balance-arithmetic',
+        severity: 'medium',
+        message: `\`${operand} - ...\` in \`${fn.name}\` is not checked first; an underflow aborts with an arithmetic error instead of a named error code`,
+        file: fn.file,
+        line: fn.lineOf(subtraction.index),
+      });
+    }
+
+    // Publisher claimed in init
+    const claim = fn.body.match(/\blet\s+(?:mut\s+)?(\w+)\s*=\s*(?:package::)?claim\s*(?:<[^(]*>)?\s*\(/);
+    if (claim) {
+      const publisher = escapeRegExp(claim[1]);
+      const exposed = fn.body.match(new RegExp(`\\b(?:public_)?(share_object|freeze_object)\\s*\\(\\s*${publisher}\\b`));
+      const uses = [...fn.body.matchAll(new RegExp(`\\b${publisher}\\b`, 'g'))].length;
+      const burned = new RegExp(`\\bburn_publisher\\s*\\(\\s*${publisher}\\b`).test(fn.body);
+
+      if (exposed) {
+        findings.push({
+          rule: 'exposed-publisher',
+          severity: 'high',
+          message: `The Publisher is ${exposed[1] === 'share_object' ? 'shared' : 'frozen'}, so anyone can use it to set Display and other metadata for this package's types`,
+          file: fn.file,
+          line: fn.lineOf(exposed.index!),
+        });
+      } else if (burned && uses === 2) {
+        findings.push({
+          rule: 'unused-publisher',
+          severity: 'low',
+          message: 'The Publisher is claimed and burned without being used; the claim can be removed',
+          file: fn.file,
+          line: fn.lineOf(claim.index!),
+        });
+      }
+    }
+
+    // A Publisher parameter proves nothing until it's tied to this package
+    const publisherParam = fn.params.find(p => baseType(p.type) === 'Publisher');
+    if (fn.isCallable && publisherParam && !/\bfrom_(module|package)\b/.test(fn.body)) {
+      findings.push({
+        rule: 'unchecked-publisher',
+        severity: 'medium',
+        message: `\`${fn.name}\` accepts any Publisher; check \`${publisherParam.name}.from_module<T>()\` or \`from_package<T>()\` first`,
+        file: fn.file,
+        line: fn.line,
+      });
+    }
+  }
+
+  return findings.sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    || a.file.localeCompare(b.file)
+    || a.line - b.line
+  );
+}
+
+export function blockingFindings(findings: MoveLintFinding[]): MoveLintFinding[] {
+  return findings.filter(f => f.severity === 'high');
+}
@@ -0,0 +1,64 @@
+// Helpers for reading Move source without a compiler. They are best-effort:
+// good enough for readable errors and review hints, never authoritative.
+
+/**
+ * Returns the text between the bracket at `start` and its matching closing bracket.
+ */
+export function bracketContents(source: string, start: number, open: string, close: string): string {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === open) depth++;
+    if (source[i] === close && --depth === 0) {
+      return source.slice(start + 1, i);
+    }
+  }
+  return source.slice(start + 1);
+}
+
+/**
+ * Splits on commas that aren't nested inside type arguments or parentheses.
+ */
+export function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '<' || char === '(') depth++;
+    if (char === '>' || char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Replaces comments and the contents of byte strings with spaces, keeping
+ * newlines, so offsets and line numbers still match the original source and
+ * brackets inside strings or comments can't confuse bracket matching.
+ */
+export function blankCommentsAndStrings(source: string): string {
+  return source.replace(
+    /\/\/[^\n]*|\/\*[\s\S]*?\*\/|(\b[bx]")((?:\\[\s\S]|[^\\"])*)"/g,
+    (match, quote?: string, contents?: string) => quote
+      ? `${quote}${contents!.replace(/[^\n]/g, ' ')}"`
+      : match.replace(/[^\n]/g, ' ')
+  );
+}
+
+/**
+ * 1-based line number of `index` in `source`.
+ */
+export function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < source.length; i++) {
+    if (source[i] === '\n') line++;
+  }
+  return line;
+}
@@ -0,0 +1,31 @@
+// Prism grammar for Sui Move (2024 edition), in the refractor format
+// `SyntaxHighlighter.registerLanguage` expects.
+
+interface PrismLike {
+  languages: Record<string, unknown>;
+}
+
+function move(Prism: PrismLike) {
+  Prism.languages.move = {
+    comment: [
+      { pattern: /\/\*[\s\S]*?\*\//, greedy: true },
+      { pattern: /\/\/.*/, greedy: true },
+    ],
+    // Byte strings b"..." and hex strings x"..."
+    string: { pattern: /\b[bx]"(?:\\[\s\S]|[^\\"])*"/, greedy: true },
+    attribute: { pattern: /#\[[^\]]*\]/, alias: 'attr-name' },
+    address: { pattern: /@(?:0x[\da-fA-F]+|\w+)/, alias: 'constant' },
+    keyword: /\b(?:abort|acquires|as|break|const|continue|copy|else|entry|enum|friend|fun|has|if|let|loop|macro|match|module|move|mut|native|public|return|struct|use|while|Self)\b/,
+    builtin: /\b(?:u8|u16|u32|u64|u128|u256|bool|address|signer|vector|drop|store|key)\b/,
+    boolean: /\b(?:true|false)\b/,
+    number: /\b(?:0x[\da-fA-F_]+|\d[\d_]*)(?:u8|u16|u32|u64|u128|u256)?\b/,
+    'class-name': /\b[A-Z]\w*\b/,
+    function: /\b[a-z_]\w*(?=\s*(?:<[^<>()]*>)?\s*\()/,
+    operator: /::|\.\.|&&|\|\||[-+*/%&|^!=<>]=?/,
+    punctuation: /[{}[\];(),.:]/,
+  };
+}
+move.displayName = 'move';
+move.aliases = [] as string[];
+
+export default move;
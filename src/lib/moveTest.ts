@@ -0,0 +1,153 @@
+import { MoveDiagnostic, parseMoveDiagnostics, stripAnsi } from './moveBuild';
+import { MoveFiles, runSuiCommand, withMoveWorkspace } from './moveWorkspace';
+import { DEFAULT_NETWORK, SuiNetwork } from './networks';
+
+export interface MoveTestCase {
+  name: string;               // fully qualified, e.g. temp_contract::counter_tests::test_reset
+  status: 'pass' | 'fail' | 'timeout';
+  abortCode: string | null;   // as printed (decimal, or hex for clever errors); null unless the test aborted
+  gasUsed: number | null;     // from --statistics, null if the CLI didn't report it
+  message: string | null;     // why a failing test failed
+  file: string | null;
+  line: number | null;
+}
+
+export interface MoveTestResult {
+  success: boolean;           // built and every test passed
+  tests: MoveTestCase[];
+  // Compiler output; any error means the tests never ran
+  diagnostics: MoveDiagnostic[];
+}
+
+// Matches `[ PASS    ] temp_contract::counter_tests::test_increment`
+const RESULT_RE = /^\[\s*(PASS|FAIL|TIMEOUT)\s*\]\s+(\S+)$/;
+// Matches `Failures in temp_contract::counter_tests:`
+const FAILURES_IN_RE = /^Failures in (\S+):$/;
+// Matches the box around one failure, `┌── test_reset ──────` ... `└──────`
+const FAILURE_START_RE = /^┌── (\S+) ─/;
+const FAILURE_END_RE = /^└─/;
+// Matches `┌─ ./sources/counter.move:25:9` inside a failure
+const LOCATION_RE = /┌─\s*(.+?):(\d+):(\d+)/;
+// Matches the label under the caret line, e.g. `^^^^ Test was not expected to error, but it aborted with code 0 ...`
+const LABEL_RE = /\^+\s+(.+)$/;
+const ABORT_CODE_RE = /aborted with code (0x[0-9a-fA-F]+|\d+)/;
+// Matches a `--statistics` row `│ temp_contract::counter_tests::test_increment │ 0.003 │ 12345 │`
+const STATISTICS_RE = /^│\s*(\S+::\S+)\s*│\s*[\d.]+\s*│\s*(\d+)\s*│$/;
+
+/**
+ * Parses `sui move test --statistics` output into one entry per test, in the
+ * order the CLI ran them.
+ */
+export function parseMoveTestOutput(output: string): MoveTestCase[] {
+  const tests: MoveTestCase[] = [];
+  const byName = new Map<string, MoveTestCase>();
+  let failureModule: string | null = null;
+  let failure: { test: MoveTestCase; lines: string[] } | null = null;
+
+  for (const rawLine of stripAnsi(output).split('\n')) {
+    const line = rawLine.trim();
+
+    if (failure) {
+      if (FAILURE_END_RE.test(line)) {
+        describeFailure(failure.test, failure.lines);
+        failure = null;
+      } else {
+        failure.lines.push(line.replace(/^│\s?/, ''));
+      }
+      continue;
+    }
+
+    const result = line.match(RESULT_RE);
+    if (result) {
+      const test: MoveTestCase = {
+        name: result[2],
+        status: result[1].toLowerCase() as MoveTestCase['status'],
+        abortCode: null,
+        gasUsed: null,
+        message: null,
+        file: null,
+        line: null,
+      };
+      tests.push(test);
+      byName.set(test.name, test);
+      continue;
+    }
+
+    const failuresIn = line.match(FAILURES_IN_RE);
+    if (failuresIn) {
+      failureModule = failuresIn[1];
+      continue;
+    }
+
+    const failureStart = line.match(FAILURE_START_RE);
+    if (failureStart && failureModule) {
+      const test = byName.get(`${failureModule}::${failureStart[1]}`);
+      if (test) failure = { test, lines: [] };
+      continue;
+    }
+
+    const statistics = line.match(STATISTICS_RE);
+    if (statistics && byName.has(statistics[1])) {
+      byName.get(statistics[1])!.gasUsed = Number(statistics[2]);
+    }
+  }
+
+  return tests;
+}
+
+/**
+ * Fills in a failing test's reason, location and abort code from the lines of
+ * its failure box. The reason is the label under the source excerpt, or the
+ * first line when there is no excerpt (e.g. "Test did not error as expected").
+ */
+function describeFailure(test: MoveTestCase, lines: string[]) {
+  const label = lines.map(l => l.match(LABEL_RE)?.[1]).find(Boolean);
+  test.message = label || lines.find(l => l.trim()) || null;
+
+  const location = lines.map(l => l.match(LOCATION_RE)).find(Boolean);
+  if (location) {
+    test.file = location[1].replace(/^\.\//, '');
+    test.line = Number(location[2]);
+  }
+
+  const abortCode = lines.join('\n').match(ABORT_CODE_RE);
+  test.abortCode = abortCode ? abortCode[1] : null;
+}
+
+/**
+ * Runs the package's unit tests in an isolated workspace against `network`'s
+ * framework. `filter` limits the run to tests whose name contains it.
+ */
+export async function runMoveTests(
+  moveFiles: MoveFiles,
+  network: SuiNetwork = DEFAULT_NETWORK,
+  filter?: string
+): Promise<MoveTestResult> {
+  return withMoveWorkspace(moveFiles, network, async workspaceDir => {
+    const args = ['move', 'test', '--statistics'];
+    if (filter) args.push(filter);
+    const run = await runSuiCommand(args, workspaceDir);
+
+    const output = `${run.stderr}\n${run.stdout}`;
+    const tests = parseMoveTestOutput(output);
+    const diagnostics = parseMoveDiagnostics(output);
+
+    // A non-zero exit without any test lines means the package didn't build
+    if (run.status !== 0 && tests.length === 0 && !diagnostics.some(d => d.severity === 'error')) {
+      diagnostics.push({
+        severity: 'error',
+        code: null,
+        message: stripAnsi(output).trim() || `sui move test exited with code ${run.status}`,
+        file: null,
+        line: null,
+        column: null,
+      });
+    }
+
+    return {
+      success: run.status === 0 && tests.every(t => t.status === 'pass'),
+      tests,
+      diagnostics,
+    };
+  });
+}
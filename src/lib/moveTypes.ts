@@ -0,0 +1,17 @@
+// Types shared by the modules that work with Move values through runtime ABIs.
+
+import type { BcsType } from '@mysten/bcs';
+import type { SuiMoveNormalizedType } from '@mysten/sui/client';
+
+// Any BCS layout; which one is only known from the chain at runtime
+export type AnyBcs = BcsType<unknown>;
+
+export type StructTag = Extract<SuiMoveNormalizedType, { Struct: unknown }>['Struct'];
+
+/**
+ * Lets a layout stand for any value. The caller reads or produces values that
+ * match the layout, which the compiler can't follow through a runtime type.
+ */
+export function anyInput<T, Input>(layout: BcsType<T, Input>): AnyBcs {
+  return layout as AnyBcs;
+}
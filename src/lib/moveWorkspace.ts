@@ -0,0 +1,173 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { NETWORKS, SuiNetwork } from './networks';
+
+// Upper bound on simultaneous `sui` CLI processes; each one is CPU and memory heavy
+const MAX_CONCURRENT_SUI_COMMANDS = Number(process.env.MAX_CONCURRENT_SUI_COMMANDS || 2);
+// A command still running after this long is killed so it gives its slot back.
+// The first build of a framework revision clones it, so this stays generous
+const SUI_COMMAND_TIMEOUT_MS = Number(process.env.SUI_COMMAND_TIMEOUT_SECONDS || 300) * 1000;
+
+// IDs of a published package: the address its types live at, and the latest version
+export interface PublishedPackage {
+  originalPackageId: string;
+  packageId: string;
+}
+
+/**
+ * The package manifest. The framework dependency is pinned to the one deployed
+ * on `network`; a published package gets its on-chain addresses so it can be
+ * upgraded or depended on, an unpublished one `0x0`.
+ */
+export function moveToml(network: SuiNetwork, published?: PublishedPackage): string {
+  return `[package]
+name = "temp_contract"
+version = "0.0.1"
+edition = "2024.beta"
+${published ? `published-at = "${published.packageId}"\n` : ''}
+[dependencies]
+Sui = { git = "https://github.com/MystenLabs/sui.git", subdir = "crates/sui-framework/packages/sui-framework", rev = "${NETWORKS[network].frameworkRev}" }
+
+[addresses]
+temp_contract = "${published ? published.originalPackageId : '0x0'}"
+`;
+}
+
+// Package-relative path (e.g. `sources/marketplace.move`) to file contents
+export type MoveFiles = Record<string, string>;
+
+export interface SuiCommandResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export const MOVE_FILE_PATTERN = /^(sources|tests)\/[\w-]+(\/[\w-]+)*\.move$/;
+
+/**
+ * Accepts either a `moveFiles` map or the legacy single `moveCode` string and
+ * checks that every path is a `.move` file under `sources/` or `tests/`.
+ * Throws with a message suitable for a 400 response.
+ */
+export function resolveMoveFiles(body: { moveFiles?: MoveFiles; moveCode?: string }): MoveFiles {
+  const moveFiles = body.moveFiles || (body.moveCode ? { 'sources/contract.move': body.moveCode } : null);
+
+  if (!moveFiles || Object.keys(moveFiles).length === 0) {
+    throw new Error('Move code is required');
+  }
+
+  for (const [filePath, content] of Object.entries(moveFiles)) {
+    if (!MOVE_FILE_PATTERN.test(filePath)) {
+      throw new Error(`Invalid Move file path: ${filePath}`);
+    }
+    if (typeof content !== 'string') {
+      throw new Error(`Move file ${filePath} must be a string`);
+    }
+  }
+
+  if (!Object.keys(moveFiles).some(filePath => filePath.startsWith('sources/'))) {
+    throw new Error('The package needs at least one file under sources/');
+  }
+
+  return moveFiles;
+}
+
+let runningCommands = 0;
+const waitingCommands: (() => void)[] = [];
+
+/**
+ * Waits for a free slot in the `sui` CLI queue. Callers must call the
+ * returned release function exactly once.
+ */
+async function acquireSlot(): Promise<() => void> {
+  if (runningCommands >= MAX_CONCURRENT_SUI_COMMANDS) {
+    await new Promise<void>(resolve => waitingCommands.push(resolve));
+  } else {
+    runningCommands++;
+  }
+
+  return () => {
+    const next = waitingCommands.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      runningCommands--;
+    }
+  };
+}
+
+/**
+ * Runs the `sui` CLI in `cwd`, queued behind any commands already running.
+ * Rejects if the command outlives `timeoutMs`, after killing it.
+ */
+export async function runSuiCommand(
+  args: string[],
+  cwd: string,
+  timeoutMs = SUI_COMMAND_TIMEOUT_MS
+): Promise<SuiCommandResult> {
+  const release = await acquireSlot();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await new Promise<SuiCommandResult>((resolve, reject) => {
+      const child = spawn('sui', args, { cwd });
+      let stdout = '';
+      let stderr = '';
+
+      timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`\`sui ${args.slice(0, 2).join(' ')}\` timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      child.stdout.on('data', chunk => { stdout += chunk; });
+      child.stderr.on('data', chunk => { stderr += chunk; });
+
+      child.on('error', error => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new Error('The `sui` CLI is not installed or not on PATH'));
+        } else {
+          reject(error);
+        }
+      });
+      child.on('close', status => resolve({ status, stdout, stderr }));
+    });
+  } finally {
+    clearTimeout(timer);
+    release();
+  }
+}
+
+/**
+ * Writes the Move package files into a fresh directory under the OS temp dir, runs
+ * `fn` against it and always removes the directory afterwards, so concurrent
+ * requests never share or delete each other's sources. The framework dependency
+ * is pinned to the one deployed on `network`.
+ */
+export async function withMoveWorkspace<T>(
+  moveFiles: MoveFiles,
+  network: SuiNetwork,
+  fn: (workspaceDir: string) => Promise<T>
+): Promise<T> {
+  const workspaceDir = path.join(os.tmpdir(), `sui-studio-${uuidv4()}`);
+
+  try {
+    await fs.mkdir(workspaceDir, { recursive: true });
+    await fs.writeFile(path.join(workspaceDir, 'Move.toml'), moveToml(network));
+
+    for (const [filePath, content] of Object.entries(moveFiles)) {
+      const targetPath = path.join(workspaceDir, filePath);
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.writeFile(targetPath, content);
+    }
+
+    return await fn(workspaceDir);
+  } finally {
+    await fs.rm(workspaceDir, { recursive: true, force: true }).catch(cleanupError => {
+      console.warn('Failed to clean up build workspace:', cleanupError);
+    });
+  }
+}
@@ -0,0 +1,61 @@
+export type SuiNetwork = 'localnet' | 'devnet' | 'testnet' | 'mainnet';
+
+export const SUI_NETWORKS: SuiNetwork[] = ['localnet', 'devnet', 'testnet', 'mainnet'];
+
+export function isSuiNetwork(value: unknown): value is SuiNetwork {
+  return SUI_NETWORKS.includes(value as SuiNetwork);
+}
+
+// Used by the API routes when a request doesn't name a network
+export const DEFAULT_NETWORK: SuiNetwork = isSuiNetwork(process.env.SUI_NETWORK)
+  ? process.env.SUI_NETWORK
+  : 'testnet';
+
+export interface NetworkConfig {
+  label: string;
+  rpcUrl: string;
+  // null where there is no faucet; burners are then funded by the master wallet
+  faucetUrl: string | null;
+  // Branch of the Sui repo whose framework matches what's deployed on the network
+  frameworkRev: string;
+}
+
+export const NETWORKS: Record<SuiNetwork, NetworkConfig> = {
+  // A node started with `sui start --with-faucet`
+  localnet: {
+    label: 'Localnet',
+    rpcUrl: 'http://127.0.0.1:9000',
+    faucetUrl: 'http://127.0.0.1:9123/gas',
+    // A local node runs the framework of the installed `sui` binary, usually a testnet release
+    frameworkRev: 'framework/testnet',
+  },
+  devnet: {
+    label: 'Devnet',
+    rpcUrl: 'https://fullnode.devnet.sui.io:443',
+    faucetUrl: 'https://faucet.devnet.sui.io/gas',
+    frameworkRev: 'framework/devnet',
+  },
+  testnet: {
+    label: 'Testnet',
+    rpcUrl: 'https://fullnode.testnet.sui.io:443',
+    faucetUrl: 'https://faucet.testnet.sui.io/gas',
+    frameworkRev: 'framework/testnet',
+  },
+  mainnet: {
+    label: 'Mainnet',
+    rpcUrl: 'https://fullnode.mainnet.sui.io:443',
+    faucetUrl: null,
+    frameworkRev: 'framework/mainnet',
+  },
+};
+
+/**
+ * Explorer link for an object or package. Localnet goes through Suiscan's
+ * custom-RPC mode, which reads from the local node in the browser.
+ */
+export function explorerUrl(network: SuiNetwork, objectId: string): string {
+  if (network === 'localnet') {
+    return `https://custom.suiscan.xyz/custom/object/${objectId}?network=${encodeURIComponent(NETWORKS.localnet.rpcUrl)}`;
+  }
+  return `https://suiscan.xyz/${network}/object/${objectId}`;
+}
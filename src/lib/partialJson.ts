@@ -0,0 +1,183 @@
+/**
+ * Closes a JSON document that was cut off mid-way, e.g. while a model is still
+ * streaming it: an open string is terminated, a dangling key or separator is
+ * dropped and every open object/array is closed. Text before the first `{`
+ * (such as a ```json fence) is ignored.
+ */
+export function closePartialJson(text: string): string {
+  const start = text.indexOf('{');
+  if (start === -1) return '';
+
+  const stack: ('{' | '[')[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let isKey = false;
+  // Last character outside a string that isn't whitespace
+  let lastToken = '';
+  // End of the last point where the document could be cut and still be closed cleanly
+  let safeEnd = start;
+  let safeStack: ('{' | '[')[] = [];
+
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeStack = [...stack];
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        lastToken = '"';
+        // A finished value is a safe cut point; a finished key still needs its value
+        if (!isKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) continue;
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        // Inside an object, a string that follows `{` or `,` is a key
+        isKey = stack[stack.length - 1] === '{' && (lastToken === '{' || lastToken === ',');
+        break;
+      case '{':
+      case '[':
+        stack.push(char);
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        markSafe(i + 1);
+        if (stack.length === 0) return text.slice(start, i + 1);
+        break;
+      default:
+        // Numbers, true/false/null; one running into the end of the text may be cut short
+        if (/[\w.+-]/.test(char) && i + 1 < text.length && !/[\w.+-]/.test(text[i + 1])) markSafe(i + 1);
+    }
+    lastToken = char;
+  }
+
+  let closed: string;
+  let closers: ('{' | '[')[];
+
+  if (inString && !isKey) {
+    // Keep the partial value, minus an escape sequence that was cut in half
+    let partial = text.slice(stringStart, escaped ? -1 : text.length);
+    partial = partial.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    closed = text.slice(start, stringStart) + partial + '"';
+    closers = stack;
+  } else {
+    closed = text.slice(start, safeEnd);
+    closers = safeStack;
+  }
+
+  // A separator or key left without a value
+  closed = closed.replace(/,\s*$/, '').replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '');
+
+  return closed + closers.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+}
+
+/**
+ * Best-effort parse of a possibly truncated JSON document; null if nothing usable.
+ */
+export function parsePartialJson(text: string): unknown {
+  const closed = closePartialJson(text);
+  if (!closed) return null;
+
+  try {
+    return JSON.parse(closed);
+  } catch {
+    return null;
+  }
+}
+
+const VALID_ESCAPES = '"\\/bfnrtu';
+
+/**
+ * Whether the `"` at `index` closes the current string, judged by what follows
+ * it: a closing quote is followed by `:`, `}`, `]`, the end of the text, or a
+ * `,` that starts another value.
+ */
+function closesString(text: string, index: number): boolean {
+  let i = index + 1;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  if (i >= text.length || ':}]'.includes(text[i])) return true;
+  if (text[i] !== ',') return false;
+
+  i++;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i >= text.length || /["{[\d\-tfn]/.test(text[i]);
+}
+
+/**
+ * Fixes the mistakes models make when writing code into JSON strings: raw
+ * newlines and tabs, backslashes that don't start a valid escape (`\'`, `\s`),
+ * unescaped quotes such as Move's `b"name"`, and trailing commas. Text before
+ * the first `{` is dropped. The result may still be truncated; pass it through
+ * `closePartialJson` for that.
+ */
+export function repairJson(text: string): string {
+  const start = text.indexOf('{');
+  if (start === -1) return '';
+
+  let repaired = '';
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (!inString) {
+      if (char === '"') {
+        inString = true;
+      } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+        continue;
+      }
+      repaired += char;
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = text[i + 1];
+      if (next === undefined) break;
+      const isValid = next === 'u'
+        ? /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))
+        : VALID_ESCAPES.includes(next);
+      if (isValid) {
+        repaired += char + next;
+        i++;
+      } else {
+        repaired += '\\\\';
+      }
+    } else if (char === '"') {
+      if (closesString(text, i)) {
+        inString = false;
+        repaired += char;
+      } else {
+        repaired += '\\"';
+      }
+    } else if (char === '\n') {
+      repaired += '\\n';
+    } else if (char === '\r') {
+      repaired += '\\r';
+    } else if (char === '\t') {
+      repaired += '\\t';
+    } else if (char < ' ') {
+      repaired += `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    } else {
+      repaired += char;
+    }
+  }
+
+  return repaired;
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { FileSystemTree, WebContainer } from '@webcontainer/api';
+import { fileStructure, previewPackageJson, SigningMode } from './previewTemplate';
+
+// Placeholder app shown until the generated frontend is written
+const PLACEHOLDER_APP = `export default function App() {
+  return <p>Waiting for the generated frontend...</p>;
+}`;
+
+// What the container starts with; a generated file that replaced one of these is reverted, not deleted
+const BASE_FILES: Record<string, string> = { ...fileStructure, 'src/App.tsx': PLACEHOLDER_APP };
+
+const CACHE_DB_NAME = 'sui-studio-preview';
+const CACHE_STORE_NAME = 'node-modules';
+// Output kept for terminals that attach after the processes started
+const MAX_BUFFERED_OUTPUT = 500;
+
+export interface PreviewSession {
+  webContainer: WebContainer;
+  serverUrl: Promise<string>;
+  // Registers a sink for install/dev-server output; returns a detach function
+  attachOutput: (write: (data: string) => void) => () => void;
+  writeFile: (path: string, contents: string) => Promise<void>;
+  // Deletes a file if it exists
+  removeFile: (path: string) => Promise<void>;
+  // Writes the generated frontend and drops the files an earlier one had that this one doesn't
+  writeFrontendFiles: (files: Record<string, string>) => Promise<void>;
+  // Installs the dependencies for `mode` if the running app does not have them yet
+  setSigningMode: (mode: SigningMode) => Promise<void>;
+}
+
+let sessionPromise: Promise<PreviewSession> | null = null;
+
+/**
+ * Converts flat `dir/file` paths into the nested tree `WebContainer.mount` expects.
+ */
+function toFileSystemTree(files: Record<string, string>): FileSystemTree {
+  const tree: FileSystemTree = {};
+
+  for (const [filePath, contents] of Object.entries(files)) {
+    const parts = filePath.split('/');
+    let dir = tree;
+    for (const part of parts.slice(0, -1)) {
+      if (!dir[part]) dir[part] = { directory: {} };
+      dir = (dir[part] as { directory: FileSystemTree }).directory;
+    }
+    dir[parts[parts.length - 1]] = { file: { contents } };
+  }
+
+  return tree;
+}
+
+function openCache(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(CACHE_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(CACHE_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readCachedNodeModules(key: string): Promise<Uint8Array | null> {
+  const db = await openCache();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(CACHE_STORE_NAME).objectStore(CACHE_STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function writeCachedNodeModules(key: string, snapshot: Uint8Array): Promise<void> {
+  const db = await openCache();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CACHE_STORE_NAME, 'readwrite');
+    transaction.objectStore(CACHE_STORE_NAME).put(snapshot, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// The install only depends on package.json, so its hash keys the cache
+async function hashPackageJson(packageJson: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(packageJson));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Writes the package.json for `signingMode`, then restores node_modules from a
+ * previous session's snapshot or installs and snapshots it.
+ */
+async function installDependencies(
+  webContainer: WebContainer,
+  signingMode: SigningMode,
+  log: (data: string) => void
+): Promise<void> {
+  const packageJson = previewPackageJson(signingMode);
+  await webContainer.fs.writeFile('package.json', packageJson);
+
+  const cacheKey = await hashPackageJson(packageJson);
+  const cached = await readCachedNodeModules(cacheKey).catch(() => null);
+
+  if (cached) {
+    log('\x1b[1;33mRestoring cached dependencies...\x1b[0m\r\n');
+    await webContainer.mount(cached, { mountPoint: 'node_modules' });
+    return;
+  }
+
+  log('\x1b[1;33mInstalling dependencies...\x1b[0m\r\n');
+  const installProcess = await webContainer.spawn('npm', ['install']);
+  installProcess.output.pipeTo(new WritableStream({ write: log }));
+
+  const installExitCode = await installProcess.exit;
+  if (installExitCode !== 0) {
+    throw new Error(`Installation failed with code ${installExitCode}`);
+  }
+
+  try {
+    const snapshot = await webContainer.export('node_modules', { format: 'binary' });
+    await writeCachedNodeModules(cacheKey, snapshot);
+  } catch (cacheError) {
+    console.warn('Failed to cache preview dependencies:', cacheError);
+  }
+}
+
+async function startSession(signingMode: SigningMode): Promise<PreviewSession> {
+  const outputBuffer: string[] = [];
+  const writers = new Set<(data: string) => void>();
+
+  const log = (data: string) => {
+    outputBuffer.push(data);
+    if (outputBuffer.length > MAX_BUFFERED_OUTPUT) outputBuffer.shift();
+    writers.forEach(write => write(data));
+  };
+
+  const webContainer = await WebContainer.boot();
+
+  let resolveServerUrl: (url: string) => void = () => {};
+  const serverUrl = new Promise<string>(resolve => { resolveServerUrl = resolve; });
+  webContainer.on('server-ready', (port, url) => {
+    log(`\x1b[1;32mDev server ready at ${url}\x1b[0m\r\n`);
+    resolveServerUrl(url);
+  });
+
+  try {
+    await webContainer.mount(toFileSystemTree(BASE_FILES));
+
+    await installDependencies(webContainer, signingMode, log);
+
+    log('\x1b[1;33mStarting dev server...\x1b[0m\r\n');
+    const devProcess = await webContainer.spawn('npm', ['run', 'dev']);
+    devProcess.output.pipeTo(new WritableStream({ write: log }));
+  } catch (error) {
+    // Free the instance so a retry can boot a fresh one
+    webContainer.teardown();
+    throw error;
+  }
+
+  let currentMode = signingMode;
+  // Serialises installs so quick mode switches don't run npm concurrently
+  let pendingInstall = Promise.resolve();
+  // Every generated frontend path written so far that hasn't been dropped again
+  const frontendPaths = new Set<string>();
+
+  // Vite's HMR picks changes up without restarting anything
+  const writeFile = async (path: string, contents: string) => {
+    const dir = path.split('/').slice(0, -1).join('/');
+    if (dir) await webContainer.fs.mkdir(dir, { recursive: true });
+    await webContainer.fs.writeFile(path, contents);
+  };
+
+  return {
+    webContainer,
+    serverUrl,
+    attachOutput: write => {
+      outputBuffer.forEach(write);
+      writers.add(write);
+      return () => writers.delete(write);
+    },
+    writeFile,
+    removeFile: path => webContainer.fs.rm(path, { force: true }),
+    // New files go first so nothing still imports a file when it disappears
+    writeFrontendFiles: async files => {
+      for (const [path, contents] of Object.entries(files)) {
+        await writeFile(path, contents);
+        frontendPaths.add(path);
+      }
+      for (const path of frontendPaths) {
+        if (path in files) continue;
+        if (path in BASE_FILES) {
+          await writeFile(path, BASE_FILES[path]);
+        } else {
+          await webContainer.fs.rm(path, { force: true });
+        }
+        frontendPaths.delete(path);
+      }
+    },
+    setSigningMode: mode => {
+      pendingInstall = pendingInstall.catch(() => {}).then(async () => {
+        if (mode === currentMode) return;
+        await installDependencies(webContainer, mode, log);
+        currentMode = mode;
+      });
+      return pendingInstall;
+    },
+  };
+}
+
+/**
+ * Returns the page's single WebContainer session, booting it on first use.
+ * The container outlives individual previews so later ones start instantly.
+ */
+export function getPreviewSession(signingMode: SigningMode): Promise<PreviewSession> {
+  if (!sessionPromise) {
+    sessionPromise = startSession(signingMode).catch(error => {
+      // Allow a retry on the next preview
+      sessionPromise = null;
+      throw error;
+    });
+  }
+  return sessionPromise;
+}
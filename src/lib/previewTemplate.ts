@@ -0,0 +1,249 @@
+// How the generated frontend signs transactions: the studio's signing proxy (backed by a
+// server-held burner key), or the user's wallet
+export type SigningMode = 'burner' | 'wallet';
+
+export const SIGNING_MODES: SigningMode[] = ['burner', 'wallet'];
+
+// Generated frontend files, keyed by their path in the preview app
+export type FrontendFiles = Record<string, string>;
+
+// The generated app's root component, imported by `src/main.tsx`
+export const FRONTEND_ENTRY = 'src/App.tsx';
+
+export const FRONTEND_FILE_PATTERN = /^src\/[\w-]+(\/[\w-]+)*\.(tsx|ts|css)$/;
+
+// Typed bindings for the deployed package, generated from its on-chain ABI
+export const CONTRACT_BINDINGS_FILE = 'src/contract.ts';
+
+// Written by the studio; generated code may import them but not replace them
+export const STUDIO_FRONTEND_FILES = ['src/main.tsx', 'src/studioSigner.ts', 'src/global.d.ts', CONTRACT_BINDINGS_FILE];
+
+/**
+ * Why `filePath` can't hold generated frontend code, or null if it can.
+ */
+export function frontendPathError(filePath: string): string | null {
+  if (!FRONTEND_FILE_PATTERN.test(filePath)) {
+    return 'must be a .tsx, .ts or .css file under src/';
+  }
+  if (STUDIO_FRONTEND_FILES.includes(filePath)) {
+    return 'is provided by the studio and cannot be replaced';
+  }
+  return null;
+}
+
+/**
+ * Accepts either a `frontendFiles` map or the legacy single `frontendCode`
+ * string (the app's `src/App.tsx`); neither means no frontend. Throws with a
+ * message suitable for a 400 response.
+ */
+export function resolveFrontendFiles(body: { frontendFiles?: FrontendFiles; frontendCode?: string }): FrontendFiles {
+  const frontendFiles = body.frontendFiles || (body.frontendCode ? { [FRONTEND_ENTRY]: body.frontendCode } : {});
+
+  for (const [filePath, content] of Object.entries(frontendFiles)) {
+    const pathError = frontendPathError(filePath);
+    if (pathError) {
+      throw new Error(`Frontend file ${filePath} ${pathError}`);
+    }
+    if (typeof content !== 'string') {
+      throw new Error(`Frontend file ${filePath} must be a string`);
+    }
+  }
+
+  return frontendFiles;
+}
+
+const burnerDependencies = {
+  'react': '^18.2.0',
+  'react-dom': '^18.2.0',
+  '@mysten/sui': '1.30.0',
+};
+
+const previewDependencies: Record<SigningMode, Record<string, string>> = {
+  burner: burnerDependencies,
+  // 0.15.1 is the wallet-standard release built against @mysten/sui 1.30.0
+  wallet: { ...burnerDependencies, '@mysten/wallet-standard': '0.15.1' },
+};
+
+/**
+ * The preview app's package.json; wallet mode adds the Sui wallet standard.
+ */
+export function previewPackageJson(signingMode: SigningMode): string {
+  return JSON.stringify({
+    name: 'sui-dapp-preview',
+    private: true,
+    version: '0.1.0',
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'tsc && vite build',
+      preview: 'vite preview',
+    },
+    dependencies: previewDependencies[signingMode],
+    devDependencies: {
+      '@types/react': '^18.2.0',
+      '@types/react-dom': '^18.2.0',
+      '@vitejs/plugin-react': '^4.0.0',
+      'typescript': '^5.0.0',
+      'vite': '^5.0.0',
+    },
+  }, null, 2);
+}
+
+// Matches what frontends saved before the move to @mysten/sui rely on: the legacy
+// package, and a burner key in the code, which the studio no longer hands out
+const LEGACY_FRONTEND_RE = /['"]@mysten\/sui\.js[/'"]|\{\{BURNER_PRIVATE_KEY_HEX\}\}/;
+
+/**
+ * Why `frontendFiles` can't run, or null if they can. Frontends saved before
+ * the move to @mysten/sui have to be refined into the current format first.
+ */
+export function legacyFrontendError(frontendFiles: FrontendFiles): string | null {
+  const legacyFiles = Object.keys(frontendFiles).filter(filePath => LEGACY_FRONTEND_RE.test(frontendFiles[filePath]));
+  if (legacyFiles.length === 0) return null;
+  return `${legacyFiles.join(', ')} ${legacyFiles.length === 1 ? 'uses' : 'use'} the retired @mysten/sui.js SDK ` +
+    'or an embedded burner key. Refine the frontend, e.g. "Migrate to @mysten/sui", to run it.';
+}
+
+// Files for the preview Vite app, apart from `package.json` and the generated frontend files
+export const fileStructure: Record<string, string> = {
+  'src/main.tsx': `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+const container = document.getElementById('root');
+const root = createRoot(container!);
+root.render(<App />);`,
+
+  'index.html': `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Sui DApp</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>`,
+
+  'vite.config.ts': `import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+export default defineConfig({
+  plugins: [react()],
+  server: {
+    port: 3000,
+    strictPort: true,
+    hmr: {
+      port: 3000,
+    },
+  },
+})`,
+
+  'src/global.d.ts': `/// <reference types="vite/client" />`,
+
+  'tsconfig.json': `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "lib": ["DOM", "DOM.Iterable", "ESNext"],
+    "allowJs": false,
+    "skipLibCheck": true,
+    "esModuleInterop": false,
+    "allowSyntheticDefaultImports": true,
+    "strict": true,
+    "forceConsistentCasingInFileNames": true,
+    "module": "ESNext",
+    "moduleResolution": "Node",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "jsx": "react-jsx"
+  },
+  "include": ["src"]
+}`,
+
+  'src/index.css': `:root {
+  font-family: Inter, system-ui, Avenir, Helvetica, Arial, sans-serif;
+  line-height: 1.5;
+  font-weight: 400;
+  color-scheme: light dark;
+  color: rgba(255, 255, 255, 0.87);
+  background-color: #242424;
+  font-synthesis: none;
+  text-rendering: optimizeLegibility;
+  -webkit-font-smoothing: antialiased;
+  -moz-osx-font-smoothing: grayscale;
+}
+
+body {
+  margin: 0;
+  min-width: 320px;
+  min-height: 100vh;
+}
+
+#root {
+  max-width: 1280px;
+  margin: 0 auto;
+  padding: 2rem;
+  text-align: center;
+}`,
+};
+
+/**
+ * `src/studioSigner.ts` for burner mode. It forwards transactions to the studio's
+ * signing proxy, so the preview never holds a private key.
+ */
+export function studioSignerModule(proxyUrl: string, sessionId: string, signerAddress: string): string {
+  return `import type { Transaction } from '@mysten/sui/transactions';
+
+const PROXY_URL = ${JSON.stringify(proxyUrl)};
+const SESSION_ID = ${JSON.stringify(sessionId)};
+
+export const SIGNER_ADDRESS = ${JSON.stringify(signerAddress)};
+
+// Signs and executes through Sui Studio. The proxy only accepts move calls into this DApp's package.
+// Legacy TransactionBlocks are Transactions too, so older frontends call this unchanged.
+export async function signAndExecute(tx: Transaction) {
+  const response = await fetch(PROXY_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId: SESSION_ID, transaction: await tx.toJSON() }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Signing proxy request failed');
+  }
+  return result;
+}
+`;
+}
+
+/**
+ * `src/studioSigner.ts` for an exported burner-mode app, which has no studio
+ * proxy to sign through. It signs locally with a development key from `.env`.
+ */
+export function exportedSignerModule(): string {
+  return `import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import type { Transaction } from '@mysten/sui/transactions';
+
+// A \`suiprivkey...\` key, e.g. from \`sui keytool export --key-identity <address>\`. Anything bundled
+// into a browser app is public, so use a development key that only holds test SUI.
+const keypair = Ed25519Keypair.fromSecretKey(import.meta.env.VITE_SIGNER_PRIVATE_KEY);
+const client = new SuiClient({ url: getFullnodeUrl(import.meta.env.VITE_NETWORK) });
+
+export const SIGNER_ADDRESS = keypair.toSuiAddress();
+
+export async function signAndExecute(tx: Transaction) {
+  return client.signAndExecuteTransaction({
+    transaction: tx,
+    signer: keypair,
+    options: { showEffects: true, showEvents: true, showObjectChanges: true },
+  });
+}
+`;
+}
@@ -0,0 +1,230 @@
+import { CreatedObject, fillObjectPlaceholders, typeKey } from './deployedObjects';
+import { MoveFiles, moveToml, PublishedPackage } from './moveWorkspace';
+import { NETWORKS, SuiNetwork } from './networks';
+import {
+  CONTRACT_BINDINGS_FILE,
+  exportedSignerModule,
+  fileStructure,
+  FrontendFiles,
+  previewPackageJson,
+  SigningMode,
+} from './previewTemplate';
+import type { ArchiveFiles } from './zipArchive';
+
+export interface ExportedDeployment extends PublishedPackage {
+  objectId: string;
+  upgradeCapId: string | null;
+  createdObjects: CreatedObject[];
+}
+
+export interface ProjectExport {
+  name: string;
+  network: SuiNetwork;
+  signingMode: SigningMode;
+  moveFiles: MoveFiles;
+  frontendFiles: FrontendFiles;
+  // Null until the package is deployed
+  deployment: ExportedDeployment | null;
+  // `src/contract.ts`, generated from the deployed package's ABI
+  contractBindings: string | null;
+}
+
+// `{{PACKAGE_ID}}`, `{{ORIGINAL_PACKAGE_ID}}`, `{{OBJECT_ID}}`, `{{NETWORK}}` and `{{OBJECT_ID:module::Struct}}`
+const PLACEHOLDER_RE = /\{\{(PACKAGE_ID|ORIGINAL_PACKAGE_ID|OBJECT_ID|NETWORK)(?::(\w+::\w+))?\}\}/g;
+
+// Single-line '...' and "..." strings, and template literals
+const STRING_LITERAL_RE = /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\[\s\S]|[^`\\])*`/g;
+
+/**
+ * Directory and file name for an export, e.g. `Counter DApp` -> `counter-dapp`.
+ */
+export function exportSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sui-dapp';
+}
+
+// `contract::Counter` -> `VITE_OBJECT_ID_CONTRACT_COUNTER`
+function envName(placeholder: string, key?: string): string {
+  return key ? `VITE_OBJECT_ID_${key.replace('::', '_').toUpperCase()}` : `VITE_${placeholder}`;
+}
+
+/**
+ * Rewrites the placeholders inside string literals to read `.env` instead.
+ * A string that is only a placeholder becomes the env lookup; other strings
+ * become template literals, wrapped in braces when they are JSX attributes.
+ * Placeholders this can't place are left for the caller to fill.
+ */
+function placeholdersToEnv(code: string): string {
+  return code.replace(STRING_LITERAL_RE, (literal: string, offset: number) => {
+    if (!literal.includes('{{')) return literal;
+
+    const quote = literal[0];
+    const body = literal.slice(1, -1);
+    const whole = new RegExp(`^${PLACEHOLDER_RE.source}$`).exec(body);
+    const isJsxAttribute = quote !== '`' && /[\w-]=$/.test(code.slice(0, offset));
+
+    let replacement: string;
+    if (whole) {
+      replacement = `import.meta.env.${envName(whole[1], whole[2])}`;
+    } else {
+      const template = quote === '`'
+        ? body
+        : body.replace(/\\(['"])/g, '$1').replace(/`|\$\{/g, match => `\\${match}`);
+      replacement = '`' + template.replace(
+        PLACEHOLDER_RE,
+        (_, placeholder: string, key?: string) => `\${import.meta.env.${envName(placeholder, key)}}`
+      ) + '`';
+    }
+    return isJsxAttribute ? `{${replacement}}` : replacement;
+  });
+}
+
+function envExample(project: ProjectExport, objectKeys: string[]): string {
+  const { deployment, network } = project;
+  const objectId = (key: string) =>
+    deployment?.createdObjects.find(object => typeKey(object.objectType) === key)?.objectId || '';
+
+  const lines = [
+    '# Copy to .env; Vite reads it at startup',
+    '# localnet, devnet, testnet or mainnet',
+    `VITE_NETWORK=${network}`,
+    `VITE_PACKAGE_ID=${deployment?.packageId || ''}`,
+    '# Address of the first version, which Move types keep across upgrades',
+    `VITE_ORIGINAL_PACKAGE_ID=${deployment?.originalPackageId || ''}`,
+    '# The main object created when the package was published',
+    `VITE_OBJECT_ID=${deployment?.objectId || ''}`,
+  ];
+  if (objectKeys.length > 0) {
+    lines.push('# Other objects the app uses, by type');
+    lines.push(...objectKeys.map(key => `${envName('OBJECT_ID', key)}=${objectId(key)}`));
+  }
+  if (project.signingMode === 'burner') {
+    lines.push(
+      '# Key the app signs with (suiprivkey...). It ends up in the browser bundle; use a test-only key',
+      'VITE_SIGNER_PRIVATE_KEY='
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+function readme(project: ProjectExport): string {
+  const { deployment, network } = project;
+  const status = deployment
+    ? `The package is deployed to ${NETWORKS[network].label} as \`${deployment.packageId}\`` +
+      (deployment.packageId !== deployment.originalPackageId ? ` (an upgrade of \`${deployment.originalPackageId}\`)` : '') +
+      ', and `.env.example` holds its IDs.'
+    : 'The package has not been published yet.';
+
+  const publish = deployment
+    ? `\`Move.toml\` records the deployed addresses, so the CLI treats the package as published. To upgrade it,
+with the key that holds the UpgradeCap${deployment.upgradeCapId ? ` (\`${deployment.upgradeCapId}\`)` : ''}:
+
+\`\`\`sh
+sui client upgrade --upgrade-capability <UpgradeCap ID> --gas-budget 100000000
+\`\`\`
+
+To publish a fresh copy instead, remove \`published-at\` from \`Move.toml\`, set \`temp_contract\` back to
+\`"0x0"\` and publish as below.`
+    : 'Publish it with the CLI switched to the network you want (`sui client switch --env <network>`):';
+
+  return `# ${project.name}
+
+A Sui dapp exported from Sui Studio: the Move package is in \`move/\` and the Vite + React frontend in
+\`app/\`. ${status}
+
+## Move package
+
+Needs the [Sui CLI](https://docs.sui.io/guides/developer/getting-started/sui-install).
+
+\`\`\`sh
+cd move
+sui move build
+sui move test
+\`\`\`
+
+${publish}
+
+\`\`\`sh
+sui client publish --gas-budget 100000000
+\`\`\`
+
+After a publish, copy the new package ID (as both \`VITE_PACKAGE_ID\` and \`VITE_ORIGINAL_PACKAGE_ID\`) and the
+IDs of the objects it created into \`app/.env\`. After an upgrade, only \`VITE_PACKAGE_ID\` changes.
+
+## Frontend
+
+\`\`\`sh
+cd app
+cp .env.example .env
+npm install
+npm run dev
+\`\`\`
+
+\`npm run build\` type-checks the app and writes a production build to \`app/dist\`.
+${project.contractBindings ? `
+\`src/contract.ts\` holds typed bindings generated from the deployed package's ABI. Regenerate it by
+exporting again from Sui Studio after changing a function or struct.
+` : `
+The app imports \`src/contract.ts\`, which Sui Studio generates from the deployed package's ABI. Deploy the
+package in the studio and export again to include it.
+`}${project.signingMode === 'burner' ? `
+Transactions are signed in the browser with \`VITE_SIGNER_PRIVATE_KEY\` (see \`src/studioSigner.ts\`).
+Only use a development key funded with test SUI.
+` : `
+Transactions are signed by the user's browser wallet.
+`}`;
+}
+
+/**
+ * Every file of a standalone project, under a directory named after it: the
+ * Move package with its manifest, the Vite app the preview runs with IDs read
+ * from `.env`, and a README.
+ */
+export function exportProjectFiles(project: ProjectExport): ArchiveFiles {
+  const { deployment, network } = project;
+  const root = exportSlug(project.name);
+  const files: ArchiveFiles = {};
+  const objectKeys = new Set<string>();
+
+  files[`${root}/README.md`] = readme(project);
+
+  files[`${root}/move/Move.toml`] = moveToml(network, deployment || undefined);
+  for (const [filePath, content] of Object.entries(project.moveFiles)) {
+    files[`${root}/move/${filePath}`] = content;
+  }
+
+  const app = `${root}/app`;
+  files[`${app}/package.json`] = JSON.stringify({
+    ...JSON.parse(previewPackageJson(project.signingMode)),
+    name: root,
+  }, null, 2);
+  files[`${app}/.gitignore`] = 'node_modules\ndist\n.env\n';
+  for (const [filePath, content] of Object.entries(fileStructure)) {
+    files[`${app}/${filePath}`] = content;
+  }
+  if (project.signingMode === 'burner') {
+    files[`${app}/src/studioSigner.ts`] = exportedSignerModule();
+  }
+  if (project.contractBindings) {
+    files[`${app}/${CONTRACT_BINDINGS_FILE}`] = project.contractBindings;
+  }
+
+  for (const [filePath, content] of Object.entries(project.frontendFiles)) {
+    for (const [, , key] of content.matchAll(PLACEHOLDER_RE)) {
+      if (key) objectKeys.add(key);
+    }
+    let code = placeholdersToEnv(content);
+    // Whatever is left sits outside a string; the deployed values keep it working
+    if (deployment) {
+      code = fillObjectPlaceholders(code, deployment.createdObjects)
+        .replace(/\{\{PACKAGE_ID\}\}/g, deployment.packageId)
+        .replace(/\{\{ORIGINAL_PACKAGE_ID\}\}/g, deployment.originalPackageId)
+        .replace(/\{\{OBJECT_ID\}\}/g, deployment.objectId)
+        .replace(/\{\{NETWORK\}\}/g, network);
+    }
+    files[`${app}/${filePath}`] = code;
+  }
+
+  files[`${app}/.env.example`] = envExample(project, [...objectKeys].sort());
+
+  return files;
+}
@@ -0,0 +1,148 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CreatedObject } from './deployedObjects';
+import type { DappMetadata } from './generationSchema';
+import { readJsonFile, updateJsonFile } from './jsonStore';
+import type { TokenUsage } from './llm';
+import type { MoveFiles } from './moveWorkspace';
+import type { SuiNetwork } from './networks';
+import type { FrontendFiles, SigningMode } from './previewTemplate';
+
+const PROJECTS_FILE = 'projects.json';
+
+export interface Generation {
+  id: string;
+  // The full request for a fresh generation, or the follow-up instruction for a refinement
+  prompt: string;
+  // Version this one refined; null (or missing on older records) for a fresh generation
+  parentId: string | null;
+  // Starter template the first version was based on; null (or missing on older records) otherwise
+  templateId: string | null;
+  signingMode: SigningMode;
+  // Missing on generations recorded before replies were schema-checked
+  metadata?: DappMetadata;
+  moveFiles: MoveFiles;
+  // Older records only have `frontendCode`; read both with `resolveFrontendFiles`
+  frontendFiles?: FrontendFiles;
+  frontendCode?: string;
+  // LLM that produced the code and what it cost, summed over repair rounds
+  provider: string;
+  model: string;
+  usage: TokenUsage | null;
+  createdAt: string;
+}
+
+export interface Deployment {
+  id: string;
+  generationId: string | null;
+  network: SuiNetwork;
+  packageId: string;
+  // First published version; stays the same across upgrades and is what object types refer to
+  originalPackageId: string;
+  version: number;
+  // Deployment this one upgraded, null for a fresh publish
+  upgradedFrom: string | null;
+  upgradeCapId: string | null;
+  deployerAddress: string;
+  // Object `{{OBJECT_ID}}` resolves to in the preview
+  objectId: string | null;
+  createdObjects: CreatedObject[];
+  signingSessionId: string;
+  signingAddress: string;
+  // Code as deployed, including any edits made after generation
+  moveFiles: MoveFiles;
+  frontendFiles?: FrontendFiles;
+  frontendCode?: string;
+  createdAt: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  generations: Generation[];
+  deployments: Deployment[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  generationCount: number;
+  deploymentCount: number;
+}
+
+function readProjects(): Promise<Project[]> {
+  return readJsonFile<Project[]>(PROJECTS_FILE, []);
+}
+
+/**
+ * Applies `update` to one project and bumps its `updatedAt`.
+ * Throws if the project doesn't exist.
+ */
+function updateProject<R>(projectId: string, update: (project: Project) => R): Promise<R> {
+  return updateJsonFile<Project[], R>(PROJECTS_FILE, [], projects => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const result = update(project);
+    project.updatedAt = new Date().toISOString();
+    return { data: projects, result };
+  });
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  return (await readProjects())
+    .map(({ generations, deployments, ...project }) => ({
+      ...project,
+      generationCount: generations.length,
+      deploymentCount: deployments.length,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getProject(projectId: string): Promise<Project | null> {
+  return (await readProjects()).find(p => p.id === projectId) || null;
+}
+
+export function createProject(name: string): Promise<Project> {
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    generations: [],
+    deployments: [],
+  };
+
+  return updateJsonFile<Project[], Project>(PROJECTS_FILE, [], projects => ({
+    data: [...projects, project],
+    result: project,
+  }));
+}
+
+export function addGeneration(
+  projectId: string,
+  generation: Omit<Generation, 'id' | 'createdAt'>
+): Promise<Generation> {
+  return updateProject(projectId, project => {
+    const entry = { ...generation, id: uuidv4(), createdAt: new Date().toISOString() };
+    project.generations.push(entry);
+    return entry;
+  });
+}
+
+export function addDeployment(
+  projectId: string,
+  deployment: Omit<Deployment, 'id' | 'createdAt'>
+): Promise<Deployment> {
+  return updateProject(projectId, project => {
+    const entry = { ...deployment, id: uuidv4(), createdAt: new Date().toISOString() };
+    project.deployments.push(entry);
+    return entry;
+  });
+}
@@ -0,0 +1,63 @@
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encodes one `event:`/`data:` frame with a JSON payload.
+ */
+export function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Reads a `text/event-stream` response body and calls `onFrame` with each
+ * frame's event name and raw data.
+ */
+export async function readEventFrames(
+  response: Response,
+  onFrame: (event: string, data: string) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    // Some servers send CRLF line endings
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) {
+        onFrame(event, data.join('\n'));
+      }
+    }
+  }
+}
+
+/**
+ * Like `readEventFrames` for streams whose data is JSON, such as the ones
+ * `encodeEvent` produces. `EventSource` only supports GET, so POST endpoints
+ * are read with fetch instead.
+ */
+export function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  return readEventFrames(response, (event, data) => onEvent({ event, data: JSON.parse(data) }));
+}
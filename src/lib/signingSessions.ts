@@ -0,0 +1,66 @@
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { v4 as uuidv4 } from 'uuid';
+import { readJsonFile, updateJsonFile } from './jsonStore';
+import { openKeypair, sealKeypair } from './keyVault';
+import type { SuiNetwork } from './networks';
+
+const SESSIONS_FILE = 'signing-sessions.json';
+
+// Sessions expire so a leaked session ID can't be used to sign forever
+const SESSION_TTL_MS = Number(process.env.SIGNING_SESSION_TTL_HOURS || 24) * 60 * 60 * 1000;
+
+export interface SigningSession {
+  id: string;
+  packageId: string;
+  address: string;
+  network: SuiNetwork;
+  createdAt: string;
+}
+
+interface StoredSigningSession extends SigningSession {
+  encryptedKey: string;  // base64 iv + auth tag + AES-256-GCM ciphertext
+}
+
+function isExpired(session: SigningSession): boolean {
+  return Date.now() - new Date(session.createdAt).getTime() > SESSION_TTL_MS;
+}
+
+/**
+ * Stores `keypair` encrypted and returns a session that may only sign for `packageId`.
+ * The session ID is the only thing that ever reaches the browser.
+ */
+export async function createSigningSession(
+  keypair: Ed25519Keypair,
+  packageId: string,
+  network: SuiNetwork
+): Promise<SigningSession> {
+  const session: SigningSession = {
+    id: uuidv4(),
+    packageId,
+    address: keypair.getPublicKey().toSuiAddress(),
+    network,
+    createdAt: new Date().toISOString(),
+  };
+
+  const encryptedKey = sealKeypair(keypair);
+  await updateJsonFile<StoredSigningSession[], void>(SESSIONS_FILE, [], sessions => ({
+    data: [...sessions.filter(s => !isExpired(s)), { ...session, encryptedKey }],
+    result: undefined,
+  }));
+
+  return session;
+}
+
+/**
+ * Looks up a live session and decrypts its keypair, or returns null.
+ */
+export async function getSigningSession(
+  id: string
+): Promise<{ session: SigningSession; keypair: Ed25519Keypair } | null> {
+  const stored = (await readJsonFile<StoredSigningSession[]>(SESSIONS_FILE, [])).find(s => s.id === id);
+  if (!stored || isExpired(stored)) return null;
+
+  const { encryptedKey, ...session } = stored;
+  const keypair = openKeypair(encryptedKey);
+  return keypair ? { session, keypair } : null;
+}
@@ -0,0 +1,210 @@
+import type { DappTemplate } from './types';
+
+const TOKEN_MOVE = `module temp_contract::token {
+    use sui::coin::{Self, Coin, TreasuryCap};
+
+    const EAmountTooLarge: u64 = 0;
+
+    const DECIMALS: u8 = 9;
+    // At most 1,000 whole tokens per mint
+    const MAX_MINT: u64 = 1_000_000_000_000;
+
+    /// One-time witness that makes TOKEN a unique currency
+    public struct TOKEN has drop {}
+
+    /// Shares the TreasuryCap so anyone can mint, up to MAX_MINT at a time
+    public struct Faucet has key {
+        id: UID,
+        cap: TreasuryCap<TOKEN>,
+    }
+
+    fun init(otw: TOKEN, ctx: &mut TxContext) {
+        let (cap, metadata) = coin::create_currency(
+            otw,
+            DECIMALS,
+            b"STUDIO",
+            b"Studio Token",
+            b"A token minted from a shared faucet",
+            option::none(),
+            ctx,
+        );
+        transfer::public_freeze_object(metadata);
+        transfer::share_object(Faucet {
+            id: object::new(ctx),
+            cap,
+        });
+    }
+
+    public fun mint(faucet: &mut Faucet, amount: u64, ctx: &mut TxContext) {
+        assert!(amount <= MAX_MINT, EAmountTooLarge);
+        let minted = coin::mint(&mut faucet.cap, amount, ctx);
+        transfer::public_transfer(minted, ctx.sender());
+    }
+
+    public fun burn(faucet: &mut Faucet, tokens: Coin<TOKEN>) {
+        coin::burn(&mut faucet.cap, tokens);
+    }
+
+    public fun total_supply(faucet: &Faucet): u64 {
+        coin::total_supply(&faucet.cap)
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(TOKEN {}, ctx);
+    }
+}
+`;
+
+const TOKEN_TESTS = `#[test_only]
+module temp_contract::token_tests {
+    use sui::coin::Coin;
+    use sui::test_scenario;
+    use temp_contract::token::{Self, Faucet, TOKEN};
+
+    const PUBLISHER: address = @0xA;
+    const USER: address = @0xB;
+
+    #[test]
+    fun mint_then_burn() {
+        let mut scenario = test_scenario::begin(PUBLISHER);
+        token::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(USER);
+        {
+            let mut faucet = scenario.take_shared<Faucet>();
+            faucet.mint(500, scenario.ctx());
+            assert!(faucet.total_supply() == 500, 0);
+            test_scenario::return_shared(faucet);
+        };
+
+        scenario.next_tx(USER);
+        {
+            let mut faucet = scenario.take_shared<Faucet>();
+            let minted = scenario.take_from_sender<Coin<TOKEN>>();
+            assert!(minted.value() == 500, 1);
+            faucet.burn(minted);
+            assert!(faucet.total_supply() == 0, 2);
+            test_scenario::return_shared(faucet);
+        };
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = token::EAmountTooLarge)]
+    fun mint_is_capped() {
+        let mut scenario = test_scenario::begin(PUBLISHER);
+        token::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(USER);
+        let mut faucet = scenario.take_shared<Faucet>();
+        faucet.mint(1_000_000_000_001, scenario.ctx());
+        test_scenario::return_shared(faucet);
+        scenario.end();
+    }
+}
+`;
+
+const TOKEN_APP = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';
+import { token } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+const COIN_TYPE = '{{ORIGINAL_PACKAGE_ID}}::token::TOKEN';
+const DECIMALS = 9;
+
+const toUnits = (amount: string) => BigInt(Math.round(Number(amount) * 10 ** DECIMALS));
+const fromUnits = (units: string) => (Number(units) / 10 ** DECIMALS).toLocaleString();
+
+export default function App() {
+  const [supply, setSupply] = useState('...');
+  const [balance, setBalance] = useState('...');
+  const [coinIds, setCoinIds] = useState<string[]>([]);
+  const [amount, setAmount] = useState('10');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    // The supply sits inside the faucet's TreasuryCap; dev-inspecting the view function reads it
+    const view = new Transaction();
+    token.total_supply(view, '{{OBJECT_ID}}');
+    const inspected = await client.devInspectTransactionBlock({ sender: SIGNER_ADDRESS, transactionBlock: view });
+    const returned = inspected.results?.[0]?.returnValues?.[0];
+    if (returned) {
+      setSupply(fromUnits(bcs.u64().parse(Uint8Array.from(returned[0]))));
+    }
+
+    const total = await client.getBalance({ owner: SIGNER_ADDRESS, coinType: COIN_TYPE });
+    setBalance(fromUnits(total.totalBalance));
+    const coins = await client.getCoins({ owner: SIGNER_ADDRESS, coinType: COIN_TYPE });
+    setCoinIds(coins.data.map(coin => coin.coinObjectId));
+  };
+
+  const run = async (build: (tx: Transaction) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      build(tx);
+      await signAndExecute(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const mint = () => run(tx => {
+    token.mint(tx, '{{OBJECT_ID}}', toUnits(amount));
+  });
+
+  // Burns every STUDIO coin the signer holds, one call per coin object
+  const burnAll = () => run(tx => {
+    for (const coinId of coinIds) {
+      token.burn(tx, '{{OBJECT_ID}}', coinId);
+    }
+  });
+
+  useEffect(() => {
+    refresh().catch(err => setError(String(err)));
+  }, []);
+
+  return (
+    <div style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
+      <h1>Studio Token</h1>
+      <p>Total supply: {supply} STUDIO</p>
+      <p>Your balance: {balance} STUDIO</p>
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+        <input type="number" min="0" max="1000" value={amount} onChange={e => setAmount(e.target.value)} />
+        <button onClick={mint} disabled={loading || !(Number(amount) > 0)}>
+          {loading ? 'Processing...' : 'Mint'}
+        </button>
+        <button onClick={burnAll} disabled={loading || coinIds.length === 0}>Burn all</button>
+      </div>
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+    </div>
+  );
+}
+`;
+
+export const coinTemplate: DappTemplate = {
+  id: 'coin',
+  name: 'Fungible Token',
+  description: 'A coin whose TreasuryCap sits in a shared faucet anyone can mint from',
+  metadata: {
+    dappName: 'Studio Token',
+    description: 'A coin whose TreasuryCap sits in a shared faucet anyone can mint from',
+    entryFunctions: [
+      { module: 'token', name: 'mint', description: 'Mints up to 1,000 tokens to the caller' },
+      { module: 'token', name: 'burn', description: 'Burns a coin and lowers the total supply' },
+    ],
+  },
+  moveFiles: {
+    'sources/token.move': TOKEN_MOVE,
+    'tests/token_tests.move': TOKEN_TESTS,
+  },
+  frontendFiles: { 'src/App.tsx': TOKEN_APP },
+};
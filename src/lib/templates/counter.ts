@@ -0,0 +1,159 @@
+import type { DappTemplate } from './types';
+
+const COUNTER_MOVE = `module temp_contract::counter {
+    const ENotOwner: u64 = 0;
+
+    public struct Counter has key {
+        id: UID,
+        owner: address,
+        value: u64,
+    }
+
+    fun init(ctx: &mut TxContext) {
+        transfer::share_object(Counter {
+            id: object::new(ctx),
+            owner: ctx.sender(),
+            value: 0,
+        });
+    }
+
+    public fun increment(counter: &mut Counter) {
+        counter.value = counter.value + 1;
+    }
+
+    public fun reset(counter: &mut Counter, ctx: &TxContext) {
+        assert!(counter.owner == ctx.sender(), ENotOwner);
+        counter.value = 0;
+    }
+
+    public fun value(counter: &Counter): u64 {
+        counter.value
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+}
+`;
+
+const COUNTER_TESTS = `#[test_only]
+module temp_contract::counter_tests {
+    use sui::test_scenario;
+    use temp_contract::counter::{Self, Counter};
+
+    const OWNER: address = @0xA;
+    const VISITOR: address = @0xB;
+
+    #[test]
+    fun anyone_increments_and_the_owner_resets() {
+        let mut scenario = test_scenario::begin(OWNER);
+        counter::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(VISITOR);
+        {
+            let mut counter = scenario.take_shared<Counter>();
+            counter.increment();
+            counter.increment();
+            assert!(counter.value() == 2, 0);
+            test_scenario::return_shared(counter);
+        };
+
+        scenario.next_tx(OWNER);
+        {
+            let mut counter = scenario.take_shared<Counter>();
+            counter.reset(scenario.ctx());
+            assert!(counter.value() == 0, 1);
+            test_scenario::return_shared(counter);
+        };
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = counter::ENotOwner)]
+    fun only_the_owner_resets() {
+        let mut scenario = test_scenario::begin(OWNER);
+        counter::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(VISITOR);
+        let mut counter = scenario.take_shared<Counter>();
+        counter.reset(scenario.ctx());
+        test_scenario::return_shared(counter);
+        scenario.end();
+    }
+}
+`;
+
+const COUNTER_APP = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';
+import { counter, Counter } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+
+export default function App() {
+  const [current, setCurrent] = useState<Counter | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setCurrent(await Counter.fetch(client, '{{OBJECT_ID}}'));
+  };
+
+  const call = async (fn: 'increment' | 'reset') => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      counter[fn](tx, '{{OBJECT_ID}}');
+      await signAndExecute(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh().catch(err => setError(String(err)));
+  }, []);
+
+  const isOwner = current?.owner === SIGNER_ADDRESS;
+
+  return (
+    <div style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
+      <h1>Counter</h1>
+      <p style={{ fontSize: '48px', margin: '20px 0' }}>{current ? String(current.value) : '...'}</p>
+      <button onClick={() => call('increment')} disabled={loading}>
+        {loading ? 'Processing...' : 'Increment'}
+      </button>
+      {isOwner && (
+        <button onClick={() => call('reset')} disabled={loading} style={{ marginLeft: '10px' }}>
+          Reset
+        </button>
+      )}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+    </div>
+  );
+}
+`;
+
+export const counterTemplate: DappTemplate = {
+  id: 'counter',
+  name: 'Counter',
+  description: 'A shared counter anyone can increment and its creator can reset',
+  metadata: {
+    dappName: 'Counter',
+    description: 'A shared counter anyone can increment and its creator can reset',
+    entryFunctions: [
+      { module: 'counter', name: 'increment', description: 'Adds one to the counter' },
+      { module: 'counter', name: 'reset', description: 'Sets the counter back to zero; creator only' },
+    ],
+  },
+  moveFiles: {
+    'sources/counter.move': COUNTER_MOVE,
+    'tests/counter_tests.move': COUNTER_TESTS,
+  },
+  frontendFiles: { 'src/App.tsx': COUNTER_APP },
+};
@@ -0,0 +1,283 @@
+import type { DappTemplate } from './types';
+
+const ESCROW_MOVE = `module temp_contract::escrow {
+    use sui::balance::Balance;
+    use sui::coin::{Self, Coin};
+    use sui::event;
+    use sui::sui::SUI;
+
+    const ENotBuyer: u64 = 0;
+    const ENotSeller: u64 = 1;
+    const ENotFunded: u64 = 2;
+
+    const STATE_FUNDED: u8 = 0;
+    const STATE_RELEASED: u8 = 1;
+    const STATE_REFUNDED: u8 = 2;
+
+    /// Holds the buyer's SUI until the buyer releases it to the seller or the
+    /// seller refunds it
+    public struct Escrow has key {
+        id: UID,
+        buyer: address,
+        seller: address,
+        amount: u64,
+        funds: Balance<SUI>,
+        state: u8,
+    }
+
+    public struct EscrowCreated has copy, drop {
+        escrow_id: ID,
+        buyer: address,
+        seller: address,
+        amount: u64,
+    }
+
+    /// Splits amount off the payment coin, so callers can pass the gas coin
+    public fun create(payment: &mut Coin<SUI>, amount: u64, seller: address, ctx: &mut TxContext) {
+        let funds = coin::split(payment, amount, ctx).into_balance();
+        let escrow = Escrow {
+            id: object::new(ctx),
+            buyer: ctx.sender(),
+            seller,
+            amount,
+            funds,
+            state: STATE_FUNDED,
+        };
+        event::emit(EscrowCreated {
+            escrow_id: object::id(&escrow),
+            buyer: escrow.buyer,
+            seller,
+            amount,
+        });
+        transfer::share_object(escrow);
+    }
+
+    public fun release(escrow: &mut Escrow, ctx: &mut TxContext) {
+        assert!(escrow.buyer == ctx.sender(), ENotBuyer);
+        assert!(escrow.state == STATE_FUNDED, ENotFunded);
+        let paid = coin::from_balance(escrow.funds.withdraw_all(), ctx);
+        transfer::public_transfer(paid, escrow.seller);
+        escrow.state = STATE_RELEASED;
+    }
+
+    public fun refund(escrow: &mut Escrow, ctx: &mut TxContext) {
+        assert!(escrow.seller == ctx.sender(), ENotSeller);
+        assert!(escrow.state == STATE_FUNDED, ENotFunded);
+        let returned = coin::from_balance(escrow.funds.withdraw_all(), ctx);
+        transfer::public_transfer(returned, escrow.buyer);
+        escrow.state = STATE_REFUNDED;
+    }
+
+    public fun state(escrow: &Escrow): u8 {
+        escrow.state
+    }
+}
+`;
+
+const ESCROW_TESTS = `#[test_only]
+module temp_contract::escrow_tests {
+    use sui::coin::{Self, Coin};
+    use sui::sui::SUI;
+    use sui::test_scenario::{Self, Scenario};
+    use temp_contract::escrow::{Self, Escrow};
+
+    const BUYER: address = @0xA;
+    const SELLER: address = @0xB;
+
+    /// Starts a scenario in which the buyer has locked 600 MIST for the seller
+    fun funded_escrow(): Scenario {
+        let mut scenario = test_scenario::begin(BUYER);
+        let mut payment = coin::mint_for_testing<SUI>(1000, scenario.ctx());
+        escrow::create(&mut payment, 600, SELLER, scenario.ctx());
+        assert!(payment.value() == 400, 0);
+        coin::burn_for_testing(payment);
+        scenario
+    }
+
+    #[test]
+    fun buyer_releases_to_seller() {
+        let mut scenario = funded_escrow();
+
+        scenario.next_tx(BUYER);
+        {
+            let mut deal = scenario.take_shared<Escrow>();
+            deal.release(scenario.ctx());
+            assert!(deal.state() == 1, 1);
+            test_scenario::return_shared(deal);
+        };
+
+        scenario.next_tx(SELLER);
+        {
+            let paid = scenario.take_from_sender<Coin<SUI>>();
+            assert!(paid.value() == 600, 2);
+            scenario.return_to_sender(paid);
+        };
+        scenario.end();
+    }
+
+    #[test]
+    fun seller_refunds_to_buyer() {
+        let mut scenario = funded_escrow();
+
+        scenario.next_tx(SELLER);
+        {
+            let mut deal = scenario.take_shared<Escrow>();
+            deal.refund(scenario.ctx());
+            assert!(deal.state() == 2, 1);
+            test_scenario::return_shared(deal);
+        };
+
+        scenario.next_tx(BUYER);
+        {
+            let returned = scenario.take_from_sender<Coin<SUI>>();
+            assert!(returned.value() == 600, 2);
+            scenario.return_to_sender(returned);
+        };
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = escrow::ENotBuyer)]
+    fun only_the_buyer_releases() {
+        let mut scenario = funded_escrow();
+
+        scenario.next_tx(SELLER);
+        let mut deal = scenario.take_shared<Escrow>();
+        deal.release(scenario.ctx());
+        test_scenario::return_shared(deal);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = escrow::ENotFunded)]
+    fun settles_only_once() {
+        let mut scenario = funded_escrow();
+
+        scenario.next_tx(BUYER);
+        let mut deal = scenario.take_shared<Escrow>();
+        deal.release(scenario.ctx());
+        deal.release(scenario.ctx());
+        test_scenario::return_shared(deal);
+        scenario.end();
+    }
+}
+`;
+
+const ESCROW_APP = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';
+import { escrow, Escrow, EscrowCreated } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+const STATES = ['Funded', 'Released', 'Refunded'];
+const MIST_PER_SUI = 1_000_000_000;
+
+const shortAddress = (address: string) => address.slice(0, 6) + '...' + address.slice(-4);
+
+export default function App() {
+  const [escrows, setEscrows] = useState<Escrow[]>([]);
+  const [seller, setSeller] = useState('');
+  const [amount, setAmount] = useState('0.01');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const events = await client.queryEvents({
+      query: { MoveEventType: '{{ORIGINAL_PACKAGE_ID}}::escrow::EscrowCreated' },
+      order: 'descending',
+      limit: 20,
+    });
+    const ids = events.data.map(event => EscrowCreated.fromFields(event.parsedJson).escrow_id);
+    if (ids.length === 0) return;
+
+    const objects = await client.multiGetObjects({ ids, options: { showContent: true } });
+    setEscrows(objects.flatMap(object =>
+      object.data?.content?.dataType === 'moveObject' ? [Escrow.fromFields(object.data.content.fields)] : []
+    ));
+  };
+
+  const run = async (build: (tx: Transaction) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      build(tx);
+      await signAndExecute(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The amount is split off the gas coin
+  const create = () => run(tx => {
+    escrow.create(tx, tx.gas, Math.round(Number(amount) * MIST_PER_SUI), seller);
+  });
+
+  const settle = (id: string, fn: 'release' | 'refund') => run(tx => {
+    escrow[fn](tx, id);
+  });
+
+  useEffect(() => {
+    refresh().catch(err => setError(String(err)));
+  }, []);
+
+  return (
+    <div style={{ maxWidth: '700px', margin: '0 auto', padding: '20px' }}>
+      <h1>Escrow</h1>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+        <input value={seller} onChange={e => setSeller(e.target.value)} placeholder="Seller address (0x...)" style={{ flex: 1 }} />
+        <input type="number" min="0" step="0.01" value={amount} onChange={e => setAmount(e.target.value)} style={{ width: '100px' }} />
+        <button onClick={create} disabled={loading || !seller.startsWith('0x') || !(Number(amount) > 0)}>
+          {loading ? 'Processing...' : 'Create'}
+        </button>
+      </div>
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      <table style={{ width: '100%', textAlign: 'left' }}>
+        <thead>
+          <tr><th>Buyer</th><th>Seller</th><th>SUI</th><th>State</th><th></th></tr>
+        </thead>
+        <tbody>
+          {escrows.map(deal => (
+            <tr key={deal.id}>
+              <td>{shortAddress(deal.buyer)}</td>
+              <td>{shortAddress(deal.seller)}</td>
+              <td>{Number(deal.amount) / MIST_PER_SUI}</td>
+              <td>{STATES[deal.state]}</td>
+              <td>
+                {deal.state === 0 && deal.buyer === SIGNER_ADDRESS && (
+                  <button onClick={() => settle(deal.id, 'release')} disabled={loading}>Release</button>
+                )}
+                {deal.state === 0 && deal.seller === SIGNER_ADDRESS && (
+                  <button onClick={() => settle(deal.id, 'refund')} disabled={loading}>Refund</button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+`;
+
+export const escrowTemplate: DappTemplate = {
+  id: 'escrow',
+  name: 'Escrow',
+  description: 'Lock SUI for a seller until the buyer releases it or the seller refunds it',
+  metadata: {
+    dappName: 'Escrow',
+    description: 'Lock SUI for a seller until the buyer releases it or the seller refunds it',
+    entryFunctions: [
+      { module: 'escrow', name: 'create', description: 'Locks an amount of SUI for a seller' },
+      { module: 'escrow', name: 'release', description: 'Pays the locked SUI to the seller; buyer only' },
+      { module: 'escrow', name: 'refund', description: 'Returns the locked SUI to the buyer; seller only' },
+    ],
+  },
+  moveFiles: {
+    'sources/escrow.move': ESCROW_MOVE,
+    'tests/escrow_tests.move': ESCROW_TESTS,
+  },
+  frontendFiles: { 'src/App.tsx': ESCROW_APP },
+};
@@ -0,0 +1,26 @@
+import { coinTemplate } from './coin';
+import { counterTemplate } from './counter';
+import { escrowTemplate } from './escrow';
+import { marketplaceTemplate } from './marketplace';
+import { nftTemplate } from './nft';
+import type { DappTemplate, TemplateSummary } from './types';
+import { votingTemplate } from './voting';
+
+export type { DappTemplate, TemplateSummary } from './types';
+
+export const TEMPLATES: DappTemplate[] = [
+  counterTemplate,
+  nftTemplate,
+  coinTemplate,
+  escrowTemplate,
+  votingTemplate,
+  marketplaceTemplate,
+];
+
+export function getTemplate(id: string): DappTemplate | undefined {
+  return TEMPLATES.find(template => template.id === id);
+}
+
+export function summarizeTemplate({ id, name, description, metadata }: DappTemplate): TemplateSummary {
+  return { id, name, description, metadata };
+}
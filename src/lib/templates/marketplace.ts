@@ -0,0 +1,326 @@
+import type { DappTemplate } from './types';
+
+const MARKETPLACE_MOVE = `module temp_contract::marketplace {
+    use std::string::String;
+    use sui::coin::{Self, Coin};
+    use sui::dynamic_object_field as dof;
+    use sui::event;
+    use sui::sui::SUI;
+
+    const ENotSeller: u64 = 0;
+
+    /// Shared storefront; listings live on it as dynamic object fields keyed
+    /// by the listing's ID
+    public struct Marketplace has key {
+        id: UID,
+        volume: u64,
+    }
+
+    /// A sample item type so the marketplace has something to sell
+    public struct Item has key, store {
+        id: UID,
+        name: String,
+    }
+
+    public struct Listing<T: key + store> has key, store {
+        id: UID,
+        item: T,
+        price: u64,
+        seller: address,
+    }
+
+    public struct ItemListed has copy, drop {
+        listing_id: ID,
+        price: u64,
+        seller: address,
+    }
+
+    public struct ItemSold has copy, drop {
+        listing_id: ID,
+        price: u64,
+        buyer: address,
+    }
+
+    fun init(ctx: &mut TxContext) {
+        transfer::share_object(Marketplace {
+            id: object::new(ctx),
+            volume: 0,
+        });
+    }
+
+    public fun mint_item(name: String, ctx: &mut TxContext) {
+        transfer::public_transfer(Item { id: object::new(ctx), name }, ctx.sender());
+    }
+
+    public fun list<T: key + store>(marketplace: &mut Marketplace, item: T, price: u64, ctx: &mut TxContext): ID {
+        let listing = Listing { id: object::new(ctx), item, price, seller: ctx.sender() };
+        let listing_id = object::id(&listing);
+        event::emit(ItemListed { listing_id, price, seller: listing.seller });
+        dof::add(&mut marketplace.id, listing_id, listing);
+        listing_id
+    }
+
+    /// Splits the price off the payment coin, so callers can pass the gas coin
+    public fun buy<T: key + store>(
+        marketplace: &mut Marketplace,
+        listing_id: ID,
+        payment: &mut Coin<SUI>,
+        ctx: &mut TxContext,
+    ) {
+        let Listing<T> { id, item, price, seller } = dof::remove(&mut marketplace.id, listing_id);
+        id.delete();
+
+        transfer::public_transfer(coin::split(payment, price, ctx), seller);
+        marketplace.volume = marketplace.volume + price;
+        event::emit(ItemSold { listing_id, price, buyer: ctx.sender() });
+        transfer::public_transfer(item, ctx.sender());
+    }
+
+    public fun delist<T: key + store>(marketplace: &mut Marketplace, listing_id: ID, ctx: &TxContext) {
+        let Listing<T> { id, item, price: _, seller } = dof::remove(&mut marketplace.id, listing_id);
+        assert!(seller == ctx.sender(), ENotSeller);
+        id.delete();
+        transfer::public_transfer(item, seller);
+    }
+
+    public fun volume(marketplace: &Marketplace): u64 {
+        marketplace.volume
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+}
+`;
+
+const MARKETPLACE_TESTS = `#[test_only]
+module temp_contract::marketplace_tests {
+    use std::string;
+    use sui::coin::{Self, Coin};
+    use sui::sui::SUI;
+    use sui::test_scenario::{Self, Scenario};
+    use temp_contract::marketplace::{Self, Item, Marketplace};
+
+    const SELLER: address = @0xA;
+    const BUYER: address = @0xB;
+    const PRICE: u64 = 100;
+
+    /// Starts a scenario in which the seller has listed an item for PRICE,
+    /// and returns the listing's ID
+    fun listed_item(): (Scenario, ID) {
+        let mut scenario = test_scenario::begin(SELLER);
+        marketplace::init_for_testing(scenario.ctx());
+        marketplace::mint_item(string::utf8(b"Rare Sword"), scenario.ctx());
+
+        scenario.next_tx(SELLER);
+        let mut market = scenario.take_shared<Marketplace>();
+        let item = scenario.take_from_sender<Item>();
+        let listing_id = marketplace::list(&mut market, item, PRICE, scenario.ctx());
+        test_scenario::return_shared(market);
+        (scenario, listing_id)
+    }
+
+    #[test]
+    fun buying_pays_the_seller_and_hands_over_the_item() {
+        let (mut scenario, listing_id) = listed_item();
+
+        scenario.next_tx(BUYER);
+        {
+            let mut market = scenario.take_shared<Marketplace>();
+            let mut payment = coin::mint_for_testing<SUI>(250, scenario.ctx());
+            marketplace::buy<Item>(&mut market, listing_id, &mut payment, scenario.ctx());
+            assert!(payment.value() == 150, 0);
+            assert!(market.volume() == PRICE, 1);
+            coin::burn_for_testing(payment);
+            test_scenario::return_shared(market);
+        };
+
+        scenario.next_tx(BUYER);
+        assert!(test_scenario::has_most_recent_for_sender<Item>(&scenario), 2);
+
+        scenario.next_tx(SELLER);
+        {
+            let paid = scenario.take_from_sender<Coin<SUI>>();
+            assert!(paid.value() == PRICE, 3);
+            scenario.return_to_sender(paid);
+        };
+        scenario.end();
+    }
+
+    #[test]
+    fun the_seller_can_delist() {
+        let (mut scenario, listing_id) = listed_item();
+
+        scenario.next_tx(SELLER);
+        {
+            let mut market = scenario.take_shared<Marketplace>();
+            marketplace::delist<Item>(&mut market, listing_id, scenario.ctx());
+            test_scenario::return_shared(market);
+        };
+
+        scenario.next_tx(SELLER);
+        assert!(test_scenario::has_most_recent_for_sender<Item>(&scenario), 0);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = marketplace::ENotSeller)]
+    fun only_the_seller_delists() {
+        let (mut scenario, listing_id) = listed_item();
+
+        scenario.next_tx(BUYER);
+        let mut market = scenario.take_shared<Marketplace>();
+        marketplace::delist<Item>(&mut market, listing_id, scenario.ctx());
+        test_scenario::return_shared(market);
+        scenario.end();
+    }
+}
+`;
+
+const MARKETPLACE_APP = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';
+import { marketplace, Item, Listing, Marketplace } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+const ITEM_TYPE = '{{ORIGINAL_PACKAGE_ID}}::marketplace::Item';
+const MIST_PER_SUI = 1_000_000_000;
+
+interface ListedItem {
+  id: string;
+  name: string;
+  price: bigint;
+  seller: string;
+}
+
+export default function App() {
+  const [listings, setListings] = useState<ListedItem[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [volume, setVolume] = useState(BigInt(0));
+  const [itemName, setItemName] = useState('Rare Sword');
+  const [price, setPrice] = useState('0.01');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setVolume((await Marketplace.fetch(client, '{{OBJECT_ID}}')).volume);
+
+    // Each dynamic object field's objectId is the Listing itself
+    const fields = await client.getDynamicFields({ parentId: '{{OBJECT_ID}}' });
+    const listingObjects = await client.multiGetObjects({
+      ids: fields.data.map(field => field.objectId),
+      options: { showContent: true },
+    });
+    setListings(listingObjects.flatMap(object => {
+      if (object.data?.content?.dataType !== 'moveObject') return [];
+      const listing = Listing.fromFields(object.data.content.fields);
+      // The listed item is generic, so the binding leaves it as raw JSON; this app only lists Items
+      const item = Item.fromFields((listing.item as { fields: unknown }).fields);
+      return [{ id: listing.id, name: item.name, price: listing.price, seller: listing.seller }];
+    }));
+
+    const owned = await client.getOwnedObjects({
+      owner: SIGNER_ADDRESS,
+      filter: { StructType: ITEM_TYPE },
+      options: { showContent: true },
+    });
+    setItems(owned.data.flatMap(object =>
+      object.data?.content?.dataType === 'moveObject' ? [Item.fromFields(object.data.content.fields)] : []
+    ));
+  };
+
+  const run = async (build: (tx: Transaction) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      build(tx);
+      await signAndExecute(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const mintItem = () => run(tx => {
+    marketplace.mint_item(tx, itemName);
+  });
+
+  const list = (itemId: string) => run(tx => {
+    marketplace.list(tx, [ITEM_TYPE], '{{OBJECT_ID}}', itemId, Math.round(Number(price) * MIST_PER_SUI));
+  });
+
+  // The price is split off the gas coin
+  const buy = (listingId: string) => run(tx => {
+    marketplace.buy(tx, [ITEM_TYPE], '{{OBJECT_ID}}', listingId, tx.gas);
+  });
+
+  const delist = (listingId: string) => run(tx => {
+    marketplace.delist(tx, [ITEM_TYPE], '{{OBJECT_ID}}', listingId);
+  });
+
+  useEffect(() => {
+    refresh().catch(err => setError(String(err)));
+  }, []);
+
+  return (
+    <div style={{ maxWidth: '700px', margin: '0 auto', padding: '20px' }}>
+      <h1>Marketplace</h1>
+      <p>Total volume: {Number(volume) / MIST_PER_SUI} SUI</p>
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+
+      <h2>Listings</h2>
+      {listings.length === 0 && <p>Nothing for sale yet.</p>}
+      {listings.map(listing => (
+        <div key={listing.id} style={{ display: 'flex', justifyContent: 'space-between', margin: '4px 0' }}>
+          <span>{listing.name} for {Number(listing.price) / MIST_PER_SUI} SUI</span>
+          {listing.seller === SIGNER_ADDRESS ? (
+            <button onClick={() => delist(listing.id)} disabled={loading}>Delist</button>
+          ) : (
+            <button onClick={() => buy(listing.id)} disabled={loading}>Buy</button>
+          )}
+        </div>
+      ))}
+
+      <h2>Your items</h2>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+        <input value={itemName} onChange={e => setItemName(e.target.value)} placeholder="Item name" />
+        <button onClick={mintItem} disabled={loading || !itemName}>
+          {loading ? 'Processing...' : 'Mint item'}
+        </button>
+        <input type="number" min="0" step="0.01" value={price} onChange={e => setPrice(e.target.value)} style={{ width: '100px' }} />
+      </div>
+      {items.map(item => (
+        <div key={item.id} style={{ display: 'flex', justifyContent: 'space-between', margin: '4px 0' }}>
+          <span>{item.name}</span>
+          <button onClick={() => list(item.id)} disabled={loading || !(Number(price) > 0)}>List for {price} SUI</button>
+        </div>
+      ))}
+    </div>
+  );
+}
+`;
+
+export const marketplaceTemplate: DappTemplate = {
+  id: 'marketplace',
+  name: 'Marketplace',
+  description: 'List any key + store object for a SUI price and let others buy it',
+  metadata: {
+    dappName: 'Marketplace',
+    description: 'List any key + store object for a SUI price and let others buy it',
+    entryFunctions: [
+      { module: 'marketplace', name: 'mint_item', description: 'Mints a sample item to the caller' },
+      { module: 'marketplace', name: 'list', description: 'Puts an object up for sale at a price in MIST' },
+      { module: 'marketplace', name: 'buy', description: 'Pays the seller and takes the listed object' },
+      { module: 'marketplace', name: 'delist', description: 'Takes a listing back; seller only' },
+    ],
+  },
+  moveFiles: {
+    'sources/marketplace.move': MARKETPLACE_MOVE,
+    'tests/marketplace_tests.move': MARKETPLACE_TESTS,
+  },
+  frontendFiles: { 'src/App.tsx': MARKETPLACE_APP },
+};
@@ -0,0 +1,263 @@
+import type { DappTemplate } from './types';
+
+const NFT_MOVE = `module temp_contract::nft {
+    use std::string::{Self, String};
+    use sui::display;
+    use sui::event;
+    use sui::package;
+
+    const ESoldOut: u64 = 0;
+    const MAX_SUPPLY: u64 = 1000;
+
+    /// One-time witness for claiming the Publisher that owns the Display
+    public struct NFT has drop {}
+
+    public struct Collectible has key, store {
+        id: UID,
+        name: String,
+        description: String,
+        image_url: String,
+        number: u64,
+    }
+
+    public struct Collection has key {
+        id: UID,
+        minted: u64,
+        max_supply: u64,
+    }
+
+    public struct Minted has copy, drop {
+        object_id: ID,
+        number: u64,
+        minter: address,
+    }
+
+    fun init(otw: NFT, ctx: &mut TxContext) {
+        let publisher = package::claim(otw, ctx);
+
+        // Wallets and explorers render Collectibles with these templates
+        let mut display = display::new_with_fields<Collectible>(
+            &publisher,
+            vector[
+                string::utf8(b"name"),
+                string::utf8(b"description"),
+                string::utf8(b"image_url"),
+            ],
+            vector[
+                string::utf8(b"{name} #{number}"),
+                string::utf8(b"{description}"),
+                string::utf8(b"{image_url}"),
+            ],
+            ctx,
+        );
+        display.update_version();
+
+        transfer::public_transfer(publisher, ctx.sender());
+        transfer::public_transfer(display, ctx.sender());
+        transfer::share_object(Collection {
+            id: object::new(ctx),
+            minted: 0,
+            max_supply: MAX_SUPPLY,
+        });
+    }
+
+    public fun mint(
+        collection: &mut Collection,
+        name: String,
+        description: String,
+        image_url: String,
+        ctx: &mut TxContext,
+    ) {
+        assert!(collection.minted < collection.max_supply, ESoldOut);
+        collection.minted = collection.minted + 1;
+
+        let nft = Collectible {
+            id: object::new(ctx),
+            name,
+            description,
+            image_url,
+            number: collection.minted,
+        };
+        event::emit(Minted {
+            object_id: object::id(&nft),
+            number: nft.number,
+            minter: ctx.sender(),
+        });
+        transfer::public_transfer(nft, ctx.sender());
+    }
+
+    public fun burn(nft: Collectible) {
+        let Collectible { id, name: _, description: _, image_url: _, number: _ } = nft;
+        id.delete();
+    }
+
+    public fun minted(collection: &Collection): u64 {
+        collection.minted
+    }
+
+    public fun number(nft: &Collectible): u64 {
+        nft.number
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(NFT {}, ctx);
+    }
+}
+`;
+
+const NFT_TESTS = `#[test_only]
+module temp_contract::nft_tests {
+    use std::string;
+    use sui::test_scenario;
+    use temp_contract::nft::{Self, Collectible, Collection};
+
+    const PUBLISHER: address = @0xA;
+    const COLLECTOR: address = @0xB;
+
+    #[test]
+    fun mint_numbers_collectibles_and_burn_destroys_them() {
+        let mut scenario = test_scenario::begin(PUBLISHER);
+        nft::init_for_testing(scenario.ctx());
+
+        scenario.next_tx(COLLECTOR);
+        {
+            let mut collection = scenario.take_shared<Collection>();
+            collection.mint(
+                string::utf8(b"First"),
+                string::utf8(b"The first collectible"),
+                string::utf8(b"https://example.com/1.png"),
+                scenario.ctx(),
+            );
+            assert!(collection.minted() == 1, 0);
+            test_scenario::return_shared(collection);
+        };
+
+        scenario.next_tx(COLLECTOR);
+        {
+            let collectible = scenario.take_from_sender<Collectible>();
+            assert!(collectible.number() == 1, 1);
+            nft::burn(collectible);
+        };
+
+        scenario.next_tx(COLLECTOR);
+        assert!(!test_scenario::has_most_recent_for_sender<Collectible>(&scenario), 2);
+        scenario.end();
+    }
+}
+`;
+
+const NFT_APP = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';
+import { nft, Collection } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+const COLLECTIBLE_TYPE = '{{ORIGINAL_PACKAGE_ID}}::nft::Collectible';
+
+interface Collectible {
+  id: string;
+  name: string;
+  imageUrl: string;
+}
+
+export default function App() {
+  const [minted, setMinted] = useState<string>('...');
+  const [owned, setOwned] = useState<Collectible[]>([]);
+  const [name, setName] = useState('Studio Collectible');
+  const [description, setDescription] = useState('Minted from Sui Studio');
+  const [imageUrl, setImageUrl] = useState('https://picsum.photos/seed/sui/300');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const collection = await Collection.fetch(client, '{{OBJECT_ID}}');
+    setMinted(collection.minted + ' / ' + collection.max_supply);
+
+    // Wallets render collectibles through their Display, so the app does too
+    const objects = await client.getOwnedObjects({
+      owner: SIGNER_ADDRESS,
+      filter: { StructType: COLLECTIBLE_TYPE },
+      options: { showDisplay: true },
+    });
+    setOwned(objects.data.map(object => ({
+      id: object.data?.objectId || '',
+      name: object.data?.display?.data?.name || '',
+      imageUrl: object.data?.display?.data?.image_url || '',
+    })));
+  };
+
+  const run = async (build: (tx: Transaction) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      build(tx);
+      await signAndExecute(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const mint = () => run(tx => {
+    nft.mint(tx, '{{OBJECT_ID}}', name, description, imageUrl);
+  });
+
+  const burn = (id: string) => run(tx => {
+    nft.burn(tx, id);
+  });
+
+  useEffect(() => {
+    refresh().catch(err => setError(String(err)));
+  }, []);
+
+  return (
+    <div style={{ maxWidth: '700px', margin: '0 auto', padding: '20px' }}>
+      <h1>NFT Collection</h1>
+      <p>Minted: {minted}</p>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '16px' }}>
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Name" />
+        <input value={description} onChange={e => setDescription(e.target.value)} placeholder="Description" />
+        <input value={imageUrl} onChange={e => setImageUrl(e.target.value)} placeholder="Image URL" />
+        <button onClick={mint} disabled={loading || !name}>
+          {loading ? 'Processing...' : 'Mint'}
+        </button>
+      </div>
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      <h2>Your collectibles</h2>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: '12px' }}>
+        {owned.map(collectible => (
+          <div key={collectible.id}>
+            {collectible.imageUrl && <img src={collectible.imageUrl} alt={collectible.name} style={{ width: '100%', borderRadius: '8px' }} />}
+            <p>{collectible.name}</p>
+            <button onClick={() => burn(collectible.id)} disabled={loading}>Burn</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+`;
+
+export const nftTemplate: DappTemplate = {
+  id: 'nft',
+  name: 'NFT Collection',
+  description: 'Mint numbered collectibles with a Display so wallets and explorers show them',
+  metadata: {
+    dappName: 'NFT Collection',
+    description: 'Mint numbered collectibles with a Display so wallets and explorers show them',
+    entryFunctions: [
+      { module: 'nft', name: 'mint', description: 'Mints the next collectible to the caller' },
+      { module: 'nft', name: 'burn', description: 'Destroys a collectible the caller owns' },
+    ],
+  },
+  moveFiles: {
+    'sources/nft.move': NFT_MOVE,
+    'tests/nft_tests.move': NFT_TESTS,
+  },
+  frontendFiles: { 'src/App.tsx': NFT_APP },
+};
@@ -0,0 +1,20 @@
+import type { DappMetadata } from '../generationSchema';
+import type { MoveFiles } from '../moveWorkspace';
+import type { FrontendFiles } from '../previewTemplate';
+
+/**
+ * A hand-written starter DApp. Frontends sign through the studio's burner
+ * proxy, so templates are used as-is in burner mode only.
+ */
+export interface DappTemplate {
+  id: string;
+  name: string;
+  description: string;
+  metadata: DappMetadata;
+  // sources/ plus a tests/ module; `npm run verify-templates` builds and tests them
+  moveFiles: MoveFiles;
+  // Calls the contract through the generated src/contract.ts bindings
+  frontendFiles: FrontendFiles;
+}
+
+export type TemplateSummary = Pick<DappTemplate, 'id' | 'name' | 'description' | 'metadata'>;
@@ -0,0 +1,37 @@
+import { buildMovePackage, MoveDiagnostic } from '../moveBuild';
+import type { SuiNetwork } from '../networks';
+import type { DappTemplate } from './types';
+
+export interface TemplateVerification {
+  success: boolean;
+  errors: MoveDiagnostic[];
+  checkedAt: string;
+}
+
+// Per network, since each network pins its own framework rev
+const verifications = new Map<SuiNetwork, Map<string, TemplateVerification>>();
+
+export function getTemplateVerification(network: SuiNetwork, templateId: string): TemplateVerification | null {
+  return verifications.get(network)?.get(templateId) || null;
+}
+
+/**
+ * Builds a template against `network`'s framework and remembers the outcome
+ * until the server restarts. Templates only change with a deploy of the
+ * studio, so a passing build stays valid; a framework bump shows up on the
+ * next restart.
+ */
+export async function verifyTemplate(template: DappTemplate, network: SuiNetwork): Promise<TemplateVerification> {
+  const build = await buildMovePackage(template.moveFiles, network);
+  const verification: TemplateVerification = {
+    success: build.success,
+    errors: build.diagnostics.filter(d => d.severity === 'error'),
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (!verifications.has(network)) {
+    verifications.set(network, new Map());
+  }
+  verifications.get(network)!.set(template.id, verification);
+  return verification;
+}
@@ -0,0 +1,303 @@
+import type { DappTemplate } from './types';
+
+const VOTING_MOVE = `module temp_contract::voting {
+    use std::string::{Self, String};
+    use sui::event;
+    use sui::table::{Self, Table};
+
+    const EPollClosed: u64 = 0;
+    const EAlreadyVoted: u64 = 1;
+    const EInvalidOption: u64 = 2;
+    const ENotCreator: u64 = 3;
+    const ETooFewOptions: u64 = 4;
+
+    public struct Poll has key {
+        id: UID,
+        question: String,
+        options: vector<String>,
+        // votes[i] counts the votes for options[i]
+        votes: vector<u64>,
+        voters: Table<address, bool>,
+        creator: address,
+        closed: bool,
+    }
+
+    public struct PollCreated has copy, drop {
+        poll_id: ID,
+        creator: address,
+    }
+
+    public struct Voted has copy, drop {
+        poll_id: ID,
+        voter: address,
+        option: u64,
+    }
+
+    /// Publishes a sample poll so the app has something to show
+    fun init(ctx: &mut TxContext) {
+        create_poll(
+            string::utf8(b"Which feature should we build next?"),
+            vector[
+                string::utf8(b"Staking"),
+                string::utf8(b"Governance"),
+                string::utf8(b"Mobile app"),
+            ],
+            ctx,
+        );
+    }
+
+    public fun create_poll(question: String, options: vector<String>, ctx: &mut TxContext) {
+        assert!(options.length() >= 2, ETooFewOptions);
+        let mut votes = vector[];
+        let mut i = 0;
+        while (i < options.length()) {
+            votes.push_back(0);
+            i = i + 1;
+        };
+
+        let poll = Poll {
+            id: object::new(ctx),
+            question,
+            options,
+            votes,
+            voters: table::new(ctx),
+            creator: ctx.sender(),
+            closed: false,
+        };
+        event::emit(PollCreated { poll_id: object::id(&poll), creator: poll.creator });
+        transfer::share_object(poll);
+    }
+
+    public fun vote(poll: &mut Poll, option: u64, ctx: &TxContext) {
+        assert!(!poll.closed, EPollClosed);
+        assert!(option < poll.options.length(), EInvalidOption);
+        let voter = ctx.sender();
+        assert!(!poll.voters.contains(voter), EAlreadyVoted);
+
+        poll.voters.add(voter, true);
+        let count = &mut poll.votes[option];
+        *count = *count + 1;
+        event::emit(Voted { poll_id: object::id(poll), voter, option });
+    }
+
+    public fun close(poll: &mut Poll, ctx: &TxContext) {
+        assert!(poll.creator == ctx.sender(), ENotCreator);
+        poll.closed = true;
+    }
+
+    public fun votes(poll: &Poll): vector<u64> {
+        poll.votes
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+}
+`;
+
+const VOTING_TESTS = `#[test_only]
+module temp_contract::voting_tests {
+    use std::string;
+    use sui::test_scenario::{Self, Scenario};
+    use temp_contract::voting::{Self, Poll};
+
+    const CREATOR: address = @0xA;
+    const VOTER: address = @0xB;
+
+    /// Starts a scenario with the sample poll from init, which has three options
+    fun sample_poll(): Scenario {
+        let mut scenario = test_scenario::begin(CREATOR);
+        voting::init_for_testing(scenario.ctx());
+        scenario
+    }
+
+    #[test]
+    fun votes_are_counted_per_option() {
+        let mut scenario = sample_poll();
+
+        scenario.next_tx(VOTER);
+        {
+            let mut poll = scenario.take_shared<Poll>();
+            poll.vote(1, scenario.ctx());
+            test_scenario::return_shared(poll);
+        };
+
+        scenario.next_tx(CREATOR);
+        {
+            let mut poll = scenario.take_shared<Poll>();
+            poll.vote(1, scenario.ctx());
+            assert!(poll.votes() == vector[0, 2, 0], 0);
+            poll.close(scenario.ctx());
+            test_scenario::return_shared(poll);
+        };
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = voting::EAlreadyVoted)]
+    fun each_address_votes_once() {
+        let mut scenario = sample_poll();
+
+        scenario.next_tx(VOTER);
+        let mut poll = scenario.take_shared<Poll>();
+        poll.vote(0, scenario.ctx());
+        poll.vote(2, scenario.ctx());
+        test_scenario::return_shared(poll);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = voting::EInvalidOption)]
+    fun rejects_unknown_options() {
+        let mut scenario = sample_poll();
+
+        scenario.next_tx(VOTER);
+        let mut poll = scenario.take_shared<Poll>();
+        poll.vote(3, scenario.ctx());
+        test_scenario::return_shared(poll);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = voting::EPollClosed)]
+    fun closed_polls_take_no_votes() {
+        let mut scenario = sample_poll();
+
+        scenario.next_tx(CREATOR);
+        let mut poll = scenario.take_shared<Poll>();
+        poll.close(scenario.ctx());
+        poll.vote(0, scenario.ctx());
+        test_scenario::return_shared(poll);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = voting::ENotCreator)]
+    fun only_the_creator_closes() {
+        let mut scenario = sample_poll();
+
+        scenario.next_tx(VOTER);
+        let mut poll = scenario.take_shared<Poll>();
+        poll.close(scenario.ctx());
+        test_scenario::return_shared(poll);
+        scenario.end();
+    }
+
+    #[test, expected_failure(abort_code = voting::ETooFewOptions)]
+    fun polls_need_two_options() {
+        let mut scenario = test_scenario::begin(CREATOR);
+        voting::create_poll(string::utf8(b"Yes?"), vector[string::utf8(b"Yes")], scenario.ctx());
+        scenario.end();
+    }
+}
+`;
+
+const VOTING_APP = `import { useEffect, useState } from 'react';
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { signAndExecute, SIGNER_ADDRESS } from './studioSigner';
+import { voting, Poll, PollCreated } from './contract';
+
+const client = new SuiClient({ url: getFullnodeUrl('{{NETWORK}}') });
+
+export default function App() {
+  const [polls, setPolls] = useState<Poll[]>([]);
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState('Yes, No');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const events = await client.queryEvents({
+      query: { MoveEventType: '{{ORIGINAL_PACKAGE_ID}}::voting::PollCreated' },
+      order: 'descending',
+      limit: 20,
+    });
+    const ids = events.data.map(event => PollCreated.fromFields(event.parsedJson).poll_id);
+    if (ids.length === 0) return;
+
+    const objects = await client.multiGetObjects({ ids, options: { showContent: true } });
+    setPolls(objects.flatMap(object =>
+      object.data?.content?.dataType === 'moveObject' ? [Poll.fromFields(object.data.content.fields)] : []
+    ));
+  };
+
+  const run = async (build: (tx: Transaction) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      build(tx);
+      await signAndExecute(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const optionList = options.split(',').map(option => option.trim()).filter(Boolean);
+
+  const createPoll = () => run(tx => {
+    voting.create_poll(tx, question, optionList);
+  });
+
+  const vote = (pollId: string, option: number) => run(tx => {
+    voting.vote(tx, pollId, option);
+  });
+
+  const close = (pollId: string) => run(tx => {
+    voting.close(tx, pollId);
+  });
+
+  useEffect(() => {
+    refresh().catch(err => setError(String(err)));
+  }, []);
+
+  return (
+    <div style={{ maxWidth: '700px', margin: '0 auto', padding: '20px' }}>
+      <h1>Polls</h1>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '16px' }}>
+        <input value={question} onChange={e => setQuestion(e.target.value)} placeholder="Question" />
+        <input value={options} onChange={e => setOptions(e.target.value)} placeholder="Options, comma separated" />
+        <button onClick={createPoll} disabled={loading || !question || optionList.length < 2}>
+          {loading ? 'Processing...' : 'Create poll'}
+        </button>
+      </div>
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      {polls.map(poll => (
+        <div key={poll.id} style={{ border: '1px solid #ddd', borderRadius: '8px', padding: '12px', marginBottom: '12px' }}>
+          <h3>{poll.question} {poll.closed && '(closed)'}</h3>
+          {poll.options.map((option, i) => (
+            <div key={option} style={{ display: 'flex', justifyContent: 'space-between', margin: '4px 0' }}>
+              <span>{option}: {String(poll.votes[i])}</span>
+              {!poll.closed && <button onClick={() => vote(poll.id, i)} disabled={loading}>Vote</button>}
+            </div>
+          ))}
+          {!poll.closed && poll.creator === SIGNER_ADDRESS && (
+            <button onClick={() => close(poll.id)} disabled={loading}>Close poll</button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+`;
+
+export const votingTemplate: DappTemplate = {
+  id: 'voting',
+  name: 'Voting',
+  description: 'Create polls with fixed options where each address votes once',
+  metadata: {
+    dappName: 'Polls',
+    description: 'Create polls with fixed options where each address votes once',
+    entryFunctions: [
+      { module: 'voting', name: 'create_poll', description: 'Shares a new poll with two or more options' },
+      { module: 'voting', name: 'vote', description: 'Votes for one option; once per address' },
+      { module: 'voting', name: 'close', description: 'Stops voting on a poll; creator only' },
+    ],
+  },
+  moveFiles: {
+    'sources/voting.move': VOTING_MOVE,
+    'tests/voting_tests.move': VOTING_TESTS,
+  },
+  frontendFiles: { 'src/App.tsx': VOTING_APP },
+};
@@ -0,0 +1,141 @@
+import { SuiClient } from '@mysten/sui/client';
+import { bracketContents, splitTopLevel } from './moveSource';
+import { MoveFiles } from './moveWorkspace';
+
+export interface UpgradeCapInfo {
+  packageId: string;   // latest version of the package, which the next upgrade replaces
+  version: number;
+  policy: number;      // 0 compatible, 128 additive, 192 dependency-only
+}
+
+export interface CompatibilityIssue {
+  module: string;
+  message: string;
+}
+
+interface ModuleInterface {
+  // Public function name to parameter count
+  functions: Map<string, number>;
+  // Struct name to field names in declaration order
+  structs: Map<string, string[]>;
+}
+
+/**
+ * Reads an UpgradeCap's current package, version and policy.
+ */
+export async function getUpgradeCap(client: SuiClient, upgradeCapId: string): Promise<UpgradeCapInfo> {
+  const object = await client.getObject({ id: upgradeCapId, options: { showContent: true } });
+  const content = object.data?.content;
+
+  if (!content || content.dataType !== 'moveObject' || !content.type.endsWith('::package::UpgradeCap')) {
+    throw new Error(`${upgradeCapId} is not an UpgradeCap`);
+  }
+
+  const fields = content.fields as { package: string; version: string; policy: number };
+  return {
+    packageId: fields.package,
+    version: Number(fields.version),
+    policy: Number(fields.policy),
+  };
+}
+
+/**
+ * Extracts each module's public functions and struct layouts from source.
+ * This is a best-effort reading for readable errors; the chain's own check
+ * during the dry run is authoritative.
+ */
+function parseModuleInterfaces(moveFiles: MoveFiles): Map<string, ModuleInterface> {
+  const modules = new Map<string, ModuleInterface>();
+
+  for (const [filePath, rawSource] of Object.entries(moveFiles)) {
+    if (!filePath.startsWith('sources/')) continue;
+
+    const source = rawSource.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+    const declarations = [...source.matchAll(/\bmodule\s+\w+\s*::\s*(\w+)/g)];
+
+    declarations.forEach((declaration, index) => {
+      const body = source.slice(declaration.index, declarations[index + 1]?.index ?? source.length);
+      const moduleInterface: ModuleInterface = { functions: new Map(), structs: new Map() };
+
+      // `public(package)` functions aren't part of the upgrade contract, so they're skipped
+      for (const fn of body.matchAll(/\bpublic\s+(?:entry\s+)?fun\s+(\w+)\s*(<[^(]*>)?\s*\(/g)) {
+        const params = bracketContents(body, fn.index + fn[0].length - 1, '(', ')');
+        moduleInterface.functions.set(fn[1], splitTopLevel(params).length);
+      }
+
+      for (const struct of body.matchAll(/\bstruct\s+(\w+)[^{;(]*([{(])/g)) {
+        const positional = struct[2] === '(';
+        const fields = splitTopLevel(bracketContents(
+          body, struct.index + struct[0].length - 1, struct[2], positional ? ')' : '}'
+        ));
+        moduleInterface.structs.set(
+          struct[1],
+          // Positional fields are named pos0, pos1, ... and an empty struct gets a dummy field
+          fields.length === 0
+            ? ['dummy_field']
+            : fields.map((field, i) => (positional ? `pos${i}` : field.split(':')[0].trim()))
+        );
+      }
+
+      modules.set(declaration[1], moduleInterface);
+    });
+  }
+
+  return modules;
+}
+
+/**
+ * Compares the edited sources against the published package under the
+ * `compatible` policy: modules, public functions and structs may be added but
+ * not removed, public function arity can't change and struct fields must stay
+ * as they are. Stricter policies are left to the chain's dry run.
+ */
+export async function checkUpgradeCompatibility(
+  client: SuiClient,
+  packageId: string,
+  moveFiles: MoveFiles
+): Promise<CompatibilityIssue[]> {
+  const published = await client.getNormalizedMoveModulesByPackage({ package: packageId });
+  const edited = parseModuleInterfaces(moveFiles);
+  const issues: CompatibilityIssue[] = [];
+
+  for (const [moduleName, publishedModule] of Object.entries(published)) {
+    const editedModule = edited.get(moduleName);
+    if (!editedModule) {
+      issues.push({ module: moduleName, message: 'Module was removed; published modules must be kept' });
+      continue;
+    }
+
+    for (const [fnName, fn] of Object.entries(publishedModule.exposedFunctions)) {
+      if (fn.visibility !== 'Public') continue;
+
+      const paramCount = editedModule.functions.get(fnName);
+      if (paramCount === undefined) {
+        issues.push({ module: moduleName, message: `Public function \`${fnName}\` was removed or made non-public` });
+      } else if (paramCount !== fn.parameters.length) {
+        issues.push({
+          module: moduleName,
+          message: `Public function \`${fnName}\` changed from ${fn.parameters.length} to ${paramCount} parameters`,
+        });
+      }
+    }
+
+    for (const [structName, struct] of Object.entries(publishedModule.structs)) {
+      const fields = editedModule.structs.get(structName);
+      if (!fields) {
+        issues.push({ module: moduleName, message: `Struct \`${structName}\` was removed` });
+        continue;
+      }
+
+      const publishedFields = struct.fields.map(field => field.name);
+      if (publishedFields.join(',') !== fields.join(',')) {
+        issues.push({
+          module: moduleName,
+          message: `Struct \`${structName}\` fields changed from (${publishedFields.join(', ')}) to (${fields.join(', ')})`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
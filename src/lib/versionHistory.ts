@@ -0,0 +1,64 @@
+import type { Generation } from './projects';
+
+export type FileChangeKind = 'added' | 'modified' | 'deleted';
+
+export interface FileChange {
+  path: string;
+  kind: FileChangeKind;
+  before: string;
+  after: string;
+}
+
+/**
+ * The versions leading up to `generationId` through their `parentId` links,
+ * oldest first and ending with the generation itself. Fresh generations
+ * start a new chain.
+ */
+export function generationChain(generations: Generation[], generationId: string): Generation[] {
+  const byId = new Map(generations.map(g => [g.id, g]));
+  const chain: Generation[] = [];
+
+  let current = byId.get(generationId);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Files that differ between two versions, sorted by path.
+ */
+export function changedFiles(before: Record<string, string>, after: Record<string, string>): FileChange[] {
+  const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  return paths.flatMap((filePath): FileChange[] => {
+    const old = before[filePath];
+    const next = after[filePath];
+    if (old === next) return [];
+
+    const kind = old === undefined ? 'added' : next === undefined ? 'deleted' : 'modified';
+    return [{ path: filePath, kind, before: old ?? '', after: next ?? '' }];
+  });
+}
+
+/**
+ * Applies the accepted changes to `before`; rejected files keep their old
+ * content, or stay absent if they were added.
+ */
+export function applyChanges(
+  before: Record<string, string>,
+  changes: FileChange[],
+  accepted: Set<string>
+): Record<string, string> {
+  const files = { ...before };
+  for (const change of changes) {
+    if (!accepted.has(change.path)) continue;
+    if (change.kind === 'deleted') {
+      delete files[change.path];
+    } else {
+      files[change.path] = change.after;
+    }
+  }
+  return files;
+}